@@ -1,18 +1,66 @@
 import * as axios from 'axios';
 import { log, selectors, types, util } from 'vortex-api';
 import { GAME_ID, getManifestValue } from './common';
-import { IAPIModIdentity, IAPIPostRequest, IAPIPostResponse, ISMAPIManifest } from './types/smapi-types';
+import SMAPICache from './SMAPI_Cache';
+import { meetsMinimumVersion } from './semantic-version';
+import { ISMAPIDependency } from './dependency-graph';
+import { findManifest, getManifests, hasManifests } from './smapi-attributes';
+import { IAPIMod, IAPIModIdentity, IAPIPostRequest, IAPIPostResponse, IModRulePlusType, ISMAPIManifest } from './types/smapi-types';
 
 const SMAPI_API_VERSION = 'v3.0';
+const DEFAULT_API_URL = 'https://smapi.io/api';
+const UPDATE_KEY_SITES = ['nexus', 'github', 'moddrop', 'curseforge'];
+// e.g. Nexus:2400, Nexus:2400@subkey or GitHub:Pathoschild/SMAPI
+const PTRN_UPDATE_KEY_ID: { [site: string]: RegExp } = {
+    nexus: /^\d+(@.+)?$/,
+    moddrop: /^\d+(@.+)?$/,
+    curseforge: /^\d+(@.+)?$/,
+    github: /^[^/\s]+\/[^/\s]+(@.+)?$/,
+};
+// Requests made within this window are merged into a single call.
+const BATCH_DELAY_MS = 250;
+// Keep request bodies to a reasonable size for large mod lists.
+const MAX_MODS_PER_REQUEST = 100;
+// After a failed request, wait before trying again, doubling up to the maximum.
+const BACKOFF_MIN_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+type SMAPIPlatform = IAPIPostRequest['platform'];
+
+interface IPendingQuery {
+    mods: IAPIModIdentity[];
+    includeMeta: boolean;
+    resolve: (result: IAPIPostResponse) => void;
+}
+
+interface IQueryBatch {
+    url: string;
+    post: typeof axios.default.post;
+    gameVersion: string | undefined;
+    platform: SMAPIPlatform;
+    queries: IPendingQuery[];
+}
+
+// Shared between instances, so separate callers benefit from the same cache and batches.
+const cache = new SMAPICache();
+const batches: { [key: string]: IQueryBatch } = {};
+let failures = 0;
+let retryAfter = 0;
 
 // API documentation https://github.com/Pathoschild/SMAPI/blob/develop/docs/technical/web.md#web-api
 class SMAPI_API {
-    public api_url: string = `https://smapi.io/api/${SMAPI_API_VERSION}/mods`;
+    public api_url: string;
     public post = axios.default.post;
     private vortexApi: types.IExtensionApi;
 
-    constructor(api: types.IExtensionApi) {
+    /**
+     * @param {types.IExtensionApi} api - The Vortex extension API.
+     * @param {string} [baseUrl] - The SMAPI web API to use, defaults to the SDV_SMAPI_API_URL environment variable or smapi.io.
+     */
+    constructor(api: types.IExtensionApi, baseUrl?: string) {
         this.vortexApi = api;
+        const base = (baseUrl || process.env.SDV_SMAPI_API_URL || DEFAULT_API_URL).replace(/\/+$/, '');
+        this.api_url = `${base}/${SMAPI_API_VERSION}/mods`;
     }
 
     async getGameVersion(): Promise<string> {
@@ -33,136 +81,288 @@ class SMAPI_API {
         return state.persistent.mods?.[GAME_ID] || {};
     }
 
+    /**
+     * Query the SMAPI API. Cached responses are used where possible and the remaining mods are sent along with
+     * any other requests made at the same time. If the API can't be reached, expired cache entries are returned instead.
+     *
+     * @param {IAPIModIdentity[]} mods - The mods to look up.
+     * @param {boolean} [includeMeta] - Include the extended metadata in the response.
+     * @returns {Promise<IAPIPostResponse>} Responses for the mods SMAPI knows about.
+     *
+     */
     async sendQuery(mods: IAPIModIdentity[], includeMeta?: boolean): Promise<IAPIPostResponse> {
+        let gameVersion: string | undefined;
         try {
-            const gameVersion = await this.getGameVersion();
-            const platform = process.platform === 'win32' 
-            ? 'Windows'
-            : process.platform === 'linux'
-                ? 'Linux'
-                : 'Mac';
-            // Attempt to make the network request.
-            const data: IAPIPostRequest = {
-                mods,
-                apiVersion: '3.0',
-                gameVersion,
-                platform,
-                includeExtendedMetadata: includeMeta
-            }
-
-            console.log('SMAPI API request', data);
-            const res = await this.post(this.api_url, data);
-            console.log('SMAPI API response', res.data);
-            return res.data;
+            gameVersion = await this.getGameVersion();
         }
         catch(err) {
-            log('error', 'Error fetching data from the SMAPI API', err);
-            return [];
+            // The API still returns useful data without a game version.
+            log('debug', 'Querying the SMAPI API without a game version', err.message);
         }
+        const platform = getPlatform();
+
+        const results: IAPIMod[] = [];
+        const uncached: IAPIModIdentity[] = [];
+        for (const mod of mods) {
+            const cached = await cache.get(mod.id, gameVersion, platform, mod.installedVersion, includeMeta);
+            if (cached) results.push(cached);
+            else uncached.push(mod);
+        }
+        if (!uncached.length) return results;
+
+        if (Date.now() < retryAfter) {
+            log('debug', 'SMAPI API is unavailable, using cached data', { retryAfter: new Date(retryAfter).toISOString() });
+            return results.concat(await getStale(uncached, gameVersion, platform, includeMeta));
+        }
+
+        const fetched = await new Promise<IAPIPostResponse>(resolve => {
+            const key = `${this.api_url}|${gameVersion}|${platform}`;
+            if (!batches[key]) {
+                batches[key] = { url: this.api_url, post: this.post, gameVersion, platform, queries: [] };
+                setTimeout(() => {
+                    const batch = batches[key];
+                    delete batches[key];
+                    // Every caller is waiting on the batch, so they get whatever is cached rather than being left waiting.
+                    sendBatch(batch).catch(err => {
+                        log('error', 'Failed to send SMAPI API batch', { error: err.message });
+                        batch.queries.forEach(query => getStale(query.mods, gameVersion, platform, query.includeMeta)
+                            .catch(() => [])
+                            .then(query.resolve));
+                    });
+                }, BATCH_DELAY_MS);
+            }
+            batches[key].queries.push({ mods: uncached, includeMeta: !!includeMeta, resolve });
+        });
+        return results.concat(fetched);
     }
 
     async fetchModInfo(includeMeta: boolean, modsToCheck?: { [id: string]: types.IMod }): Promise<IAPIPostResponse> {
         if (!modsToCheck) modsToCheck = this.getAllMods();
-        let mods: IAPIModIdentity[] = Object.values(modsToCheck).reduce((prev, cur) => {
-            const ids = cur.attributes?.modData;
-            if (!ids || !ids.length) return prev;
-            return [...prev, ...ids.map(m => ({ id: m.id, installedVersion: m.version, updateKeys: cur.attributes?.modId && cur.attributes?.source === 'nexus' ? [`nexus:${cur.attributes?.modId}`] : [] }))];
-        }, new Array(0));
+        const mods: { [id: string]: IAPIModIdentity } = {};
+        for (const mod of Object.values(modsToCheck)) {
+            if (!hasManifests(mod)) continue;
+            // Vortex knows the Nexus mod ID even if the manifest doesn't include it.
+            const nexusKey: string | undefined = mod.attributes?.source === 'nexus' && !!mod.attributes?.modId
+                ? `Nexus:${mod.attributes.modId}`
+                : undefined;
+            for (const [id, manifest] of Object.entries(getManifests(mod))) {
+                const updateKeys = getUpdateKeys(manifest);
+                if (nexusKey && !updateKeys.find(k => k.toLowerCase().startsWith('nexus:'))) updateKeys.push(nexusKey);
+                mods[id.toLowerCase()] = { id, installedVersion: manifest.Version, updateKeys };
+            }
+        }
+
+        if (!Object.keys(mods).length) return [];
+
+        return this.sendQuery(Object.values(mods), includeMeta);
+    }
+}
+
+function getPlatform(): SMAPIPlatform {
+    return process.platform === 'win32'
+        ? 'Windows'
+        : process.platform === 'linux'
+            ? 'Linux'
+            : 'Mac';
+}
+
+async function getStale(mods: IAPIModIdentity[], gameVersion: string | undefined, platform: SMAPIPlatform, includeMeta?: boolean): Promise<IAPIMod[]> {
+    const results: IAPIMod[] = [];
+    for (const mod of mods) {
+        const cached = await cache.get(mod.id, gameVersion, platform, mod.installedVersion, includeMeta, true);
+        if (cached) results.push(cached);
+    }
+    return results;
+}
+
+async function sendBatch(batch: IQueryBatch) {
+    // Merge the requested mods, the same mod may have been requested by more than one caller.
+    const merged: { [id: string]: IAPIModIdentity } = {};
+    for (const query of batch.queries) {
+        for (const mod of query.mods) {
+            const key = mod.id.toLowerCase();
+            const existing = merged[key];
+            if (!existing) merged[key] = { ...mod, updateKeys: [...(mod.updateKeys || [])] };
+            else {
+                const keys = (mod.updateKeys || []).filter(k => !existing.updateKeys.find(e => e.toLowerCase() === k.toLowerCase()));
+                existing.updateKeys.push(...keys);
+                if (!existing.installedVersion) existing.installedVersion = mod.installedVersion;
+            }
+        }
+    }
+    const includeMeta = batch.queries.some(q => q.includeMeta);
+    const identities = Object.values(merged);
+
+    const responses: { [id: string]: IAPIMod } = {};
+    let failed = false;
+    for (let i = 0; i < identities.length; i += MAX_MODS_PER_REQUEST) {
+        const data: IAPIPostRequest = {
+            mods: identities.slice(i, i + MAX_MODS_PER_REQUEST),
+            apiVersion: '3.0',
+            gameVersion: batch.gameVersion,
+            platform: batch.platform,
+            includeExtendedMetadata: includeMeta
+        }
+        try {
+            log('debug', 'SMAPI API request', { url: batch.url, mods: data.mods.length, includeMeta });
+            const res = await batch.post(batch.url, data);
+            const result: IAPIPostResponse = Array.isArray(res.data) ? res.data : [];
+            log('debug', 'SMAPI API response', { mods: result.length });
+            for (const mod of result) {
+                const identity = merged[mod.id.toLowerCase()];
+                responses[mod.id.toLowerCase()] = mod;
+                await cache.set(mod, batch.gameVersion, batch.platform, identity?.installedVersion, includeMeta);
+            }
+        }
+        catch(err) {
+            log('error', 'Error fetching data from the SMAPI API', err.message);
+            failed = true;
+            // Further requests are likely to fail too, so don't keep trying.
+            break;
+        }
+    }
 
-        if (!mods.length) return [];
+    if (failed) {
+        failures++;
+        const delay = Math.min(BACKOFF_MIN_MS * Math.pow(2, failures - 1), BACKOFF_MAX_MS);
+        retryAfter = Date.now() + delay;
+        log('warn', 'SMAPI API requests paused after a failure', { seconds: delay / 1000 });
+    }
+    else {
+        failures = 0;
+        retryAfter = 0;
+    }
 
-        return this.sendQuery(mods, includeMeta);
+    for (const query of batch.queries) {
+        const result: IAPIMod[] = [];
+        const missing: IAPIModIdentity[] = [];
+        for (const mod of query.mods) {
+            const response = responses[mod.id.toLowerCase()];
+            if (response) result.push(response);
+            else missing.push(mod);
+        }
+        // Fall back to anything we've seen before for mods the failed requests didn't cover.
+        if (failed && missing.length) result.push(...(await getStale(missing, batch.gameVersion, batch.platform, query.includeMeta)));
+        query.resolve(result);
     }
 }
 
-export async function getModDependencies(context: types.IExtensionContext, manifest: ISMAPIManifest): Promise<types.IModRule[]> {
-    // Make the data easier to work with by normalising it. This will remove any case ambiguity. 
-    const contentPackFor: { UniqueID: string, isRequired?: boolean } | undefined = normaliseDependencies(getManifestValue(manifest, 'ContentPackFor'));
-    const dependencies: { UniqueID: string, MinimumVersion?: string, isRequired: boolean }[] = (getManifestValue(manifest, 'Dependencies') || []).map(normaliseDependencies);
-    if (!contentPackFor && !dependencies.length) return [];
-    if (!!contentPackFor) dependencies.push({ UniqueID: contentPackFor.UniqueID, isRequired: true});
+/**
+ * Get the valid update keys from a manifest. SMAPI can check Nexus, GitHub, ModDrop and CurseForge.
+ *
+ * @param {ISMAPIManifest} manifest - The SMAPI manifest.
+ * @returns {string[]} Update keys in the "Site:ID" format.
+ *
+ */
+export function getUpdateKeys(manifest: ISMAPIManifest): string[] {
+    const keys = getManifestValue(manifest, 'UpdateKeys');
+    if (!Array.isArray(keys)) return [];
+    return keys
+        .filter(k => typeof k === 'string')
+        .map(k => k.trim())
+        .filter(isValidUpdateKey);
+}
+
+/**
+ * Check an update key is for a site SMAPI supports and has a usable ID, placeholders like "Nexus:???" are common.
+ *
+ * @param {string} key - The update key from a manifest.
+ * @returns {boolean} True if SMAPI can check the key for updates.
+ *
+ */
+export function isValidUpdateKey(key: string): boolean {
+    if (typeof key !== 'string') return false;
+    const [site, id, ...rest] = key.trim().split(':');
+    if (rest.length || !UPDATE_KEY_SITES.includes(site.toLowerCase())) return false;
+    return PTRN_UPDATE_KEY_ID[site.toLowerCase()].test((id || '').trim());
+}
+
+/**
+ * The result of matching the dependencies of a mod being installed against the installed mods.
+ *
+ * @interface IDependencyResolution
+ */
+export interface IDependencyResolution {
+    rules: IModRulePlusType[];
+    /**Dependencies which aren't installed, or where the installed version is too old. */
+    missing: { dependency: ISMAPIDependency, name: string, url?: string, installedVersion?: string }[];
+}
+
+/**
+ * Build rules for the dependencies of a mod. Dependencies are matched against installed mods by UniqueID and version,
+ * anything not installed is looked up with the SMAPI API so the user can find it.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {ISMAPIDependency[]} dependencies - The dependencies from the mod's manifests.
+ * @returns {Promise<IDependencyResolution>} Rules to add to the mod and the dependencies which are still needed.
+ *
+ */
+export async function getModDependencies(api: types.IExtensionApi, dependencies: ISMAPIDependency[]): Promise<IDependencyResolution> {
+    const result: IDependencyResolution = { rules: [], missing: [] };
+    if (!dependencies.length) return result;
 
-    // Get installed mods with SMAPI IDs assigned.
-    const state: types.IState = context.api.getState();
-    const mods: { [id: string]: types.IMod } = state.persistent.mods?.[GAME_ID];
-    const smapiMods = Object.values(mods).filter(m => !!m.attributes.smapiIDs);
+    // Get installed mods with SMAPI manifests.
+    const state: types.IState = api.getState();
+    const mods: { [id: string]: types.IMod } = state.persistent.mods?.[GAME_ID] || {};
+    const smapiMods = Object.values(mods).filter(hasManifests);
 
-    let unfulfilled: { UniqueID: string, MinimumVersion?: string, isRequired: boolean }[] = [];
-    let rules: types.IModRule[] = [];
+    const unfulfilled: { dependency: ISMAPIDependency, installedVersion?: string }[] = [];
 
     // Check for existing mods as dependencies
     for (const dependency of dependencies) {
-        const matchingMod = smapiMods.find(mod => mod.attributes.smapiIDs.find(data => data.id.toLowerCase() === dependency.UniqueID.toLowerCase()));
-        // If we don't have this mod, mark it for the SMAPI request and continue to the next one.
+        const candidates = smapiMods.filter(mod => !!findManifest(mod, dependency.UniqueID));
+        const matchingMod = candidates.find(mod => {
+            if (!dependency.MinimumVersion) return true;
+            return meetsMinimumVersion(getManifestValue(findManifest(mod, dependency.UniqueID), 'Version'), dependency.MinimumVersion);
+        });
+        // If we don't have this mod (or it's too old), mark it for the SMAPI request and continue to the next one.
         if (!matchingMod) {
-            unfulfilled.push(dependency);
+            const outdated = candidates[0] ? getManifestValue(findManifest(candidates[0], dependency.UniqueID), 'Version') : undefined;
+            unfulfilled.push({ dependency, installedVersion: outdated });
             continue;
         }
-        const rule: types.IModRule = {
+        result.rules.push({
+            type: dependency.isRequired ? 'requires' : 'recommends',
             reference: {
                 id: matchingMod.id,
-                repo: {
-                    repository: 'nexus',
-                    gameId: GAME_ID,
-                    modId: matchingMod.attributes?.modId,
-                    fileId: matchingMod.attributes?.fileId,
-                },
-                archiveId: matchingMod.archiveId,
                 description: util.renderModName(matchingMod),
             },
-            downloadHint: {
-                mode: 'browse',
-                url: `https://nexusmods.com/${GAME_ID}/mods/${matchingMod.attributes?.modId || ''}`
-            },
             extra: {
-                required: dependency.isRequired || false
+                required: dependency.isRequired
             }
-        }
-        rules.push(rule);
+        });
     }
 
+    if (!unfulfilled.length) return result;
+
     // Now we need the data from SMAPI for the remaining dependencies
-    const smapi = new SMAPI_API(context.api);
-    const modsToSend: IAPIModIdentity[] = unfulfilled.map(u => ({ id: u.UniqueID }));
-    try {
-        const smapiRequest = await smapi.sendQuery(modsToSend, true);
-        // Now map the API responses into rules
-        const unfulfilledRules: types.IModRule[] = unfulfilled.map(rule => {
-            const data = smapiRequest.find(m => m.id.toLowerCase() === rule.UniqueID.toLowerCase());
-            if (!data) return;
-            const depRule: types.IModRule = {
-                reference: {
-                    idHint: data.id,
-                    description: data.metadata?.name || data.id,
-                    instructions: 'Download the required version.'
-                },
-                downloadHint: {
-                    mode: 'browse',
-                    url: data.metadata?.main?.url || `https://nexusmods.com/${GAME_ID}/mods/`
-                },
-                extra: {
-                    required: rule.isRequired || false
-                }
+    const smapi = new SMAPI_API(api);
+    const modsToSend: IAPIModIdentity[] = unfulfilled.map(u => ({ id: u.dependency.UniqueID }));
+    const smapiRequest = await smapi.sendQuery(modsToSend, true);
+    for (const { dependency, installedVersion } of unfulfilled) {
+        const data = smapiRequest.find(m => m.id.toLowerCase() === dependency.UniqueID.toLowerCase());
+        const name = data?.metadata?.name || dependency.UniqueID;
+        const url = data?.metadata?.main?.url;
+        result.rules.push({
+            type: dependency.isRequired ? 'requires' : 'recommends',
+            reference: {
+                idHint: dependency.UniqueID,
+                description: name,
+                instructions: dependency.MinimumVersion ? `Download version ${dependency.MinimumVersion} or newer.` : 'Download the required version.',
+                ...(dependency.MinimumVersion ? { versionMatch: `>=${dependency.MinimumVersion}` } : {})
+            },
+            downloadHint: {
+                mode: 'browse',
+                url: url || `https://nexusmods.com/${GAME_ID}/mods/`
+            },
+            extra: {
+                required: dependency.isRequired,
+                nexusId: data?.metadata?.nexusID
             }
-            return depRule;
         });
-
-        return  rules.concat.apply([], unfulfilledRules);
-    }
-    catch(err) {
-        log('error', 'There was an error fetching dependency data for SMAPI mods', { unfulfilled, err });
-        return rules;
+        result.missing.push({ dependency, name, url, installedVersion });
     }
-}
-
-function normaliseDependencies(input: object): { UniqueID: string, MinimumVersion?: string, isRequired: boolean } {
-    const UniqueID = getManifestValue(input, 'UniqueID');
-    const MinimumVersion = getManifestValue(input, 'MinimumVersion');
-    const isRequired: boolean = getManifestValue(input, 'isRequired') || false;
 
-    if (!UniqueID) return undefined;
-    let result: { UniqueID: string, MinimumVersion?: string, isRequired: boolean } = { UniqueID, isRequired };
-    if (!MinimumVersion) result.MinimumVersion = MinimumVersion;
     return result;
 }
 
@@ -0,0 +1,114 @@
+import * as path from 'path';
+import { fs, log, util } from 'vortex-api';
+import { GAME_ID } from './common';
+import { IAPIMod } from './types/smapi-types';
+
+// How long a response is considered fresh.
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+// Wait for further changes before writing the cache to disk.
+const SAVE_DELAY_MS = 5000;
+const CACHE_FILE = 'smapi-api-cache.json';
+
+interface ICacheEntry {
+    data: IAPIMod;
+    /**The installed version sent with the request, the suggested update depends on it. */
+    installedVersion?: string;
+    includeMeta: boolean;
+    fetched: number;
+}
+
+/**
+ * A persistent cache of SMAPI API responses, keyed by UniqueID, game version and platform.
+ *
+ * @class SMAPICache
+ */
+class SMAPICache {
+    private entries: { [key: string]: ICacheEntry } | undefined;
+    private loading: Promise<void> | undefined;
+    private saveTimer: NodeJS.Timeout | undefined;
+    private ttl: number;
+
+    constructor(ttl: number = CACHE_TTL_MS) {
+        this.ttl = ttl;
+    }
+
+    private get filePath(): string {
+        return path.join(util.getVortexPath('userData'), GAME_ID, CACHE_FILE);
+    }
+
+    private static key(id: string, gameVersion: string | undefined, platform: string): string {
+        return `${id.toLowerCase()}|${gameVersion || 'unknown'}|${platform}`;
+    }
+
+    private load(): Promise<void> {
+        if (this.entries !== undefined) return Promise.resolve();
+        // Several lookups may arrive before the file has been read.
+        if (!this.loading) this.loading = this.read().finally(() => this.loading = undefined);
+        return this.loading;
+    }
+
+    private async read() {
+        try {
+            const data: string = await fs.readFileAsync(this.filePath, { encoding: 'utf8' });
+            this.entries = JSON.parse(data) || {};
+        }
+        catch(err) {
+            if (err.code !== 'ENOENT') log('warn', 'Unable to read SMAPI API cache, starting a new one', err);
+            this.entries = {};
+        }
+    }
+
+    /**
+     * Get a cached response.
+     *
+     * @param {string} id - The UniqueID of the mod.
+     * @param {string | undefined} gameVersion - The game version sent with the request.
+     * @param {string} platform - The platform sent with the request.
+     * @param {string} [installedVersion] - The installed version sent with the request.
+     * @param {boolean} [includeMeta] - If the response must include the extended metadata.
+     * @param {boolean} [allowStale] - Return the best response we have even if it has expired or doesn't fully match, e.g. when offline.
+     * @returns {Promise<IAPIMod | undefined>} The cached response or undefined.
+     *
+     */
+    public async get(id: string, gameVersion: string | undefined, platform: string, installedVersion?: string, includeMeta?: boolean, allowStale?: boolean): Promise<IAPIMod | undefined> {
+        await this.load();
+        const entry = this.entries[SMAPICache.key(id, gameVersion, platform)];
+        if (!entry) return undefined;
+        if (allowStale) return entry.data;
+        if (entry.installedVersion !== installedVersion) return undefined;
+        if (includeMeta && !entry.includeMeta) return undefined;
+        if ((Date.now() - entry.fetched) > this.ttl) return undefined;
+        return entry.data;
+    }
+
+    public async set(data: IAPIMod, gameVersion: string | undefined, platform: string, installedVersion?: string, includeMeta?: boolean) {
+        await this.load();
+        this.entries[SMAPICache.key(data.id, gameVersion, platform)] = { data, installedVersion, includeMeta: !!includeMeta, fetched: Date.now() };
+        this.scheduleSave();
+    }
+
+    private scheduleSave() {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.save();
+        }, SAVE_DELAY_MS);
+    }
+
+    private async save() {
+        try {
+            // Drop anything that has been stale for a while, so the cache doesn't grow forever.
+            const cutoff = Date.now() - (this.ttl * 10);
+            for (const key of Object.keys(this.entries)) {
+                if (this.entries[key].fetched < cutoff) delete this.entries[key];
+            }
+            await fs.ensureDirAsync(path.dirname(this.filePath));
+            await fs.writeFileAsync(this.filePath, JSON.stringify(this.entries), { encoding: 'utf8' });
+        }
+        catch(err) {
+            log('warn', 'Unable to save SMAPI API cache', err);
+        }
+    }
+}
+
+export default SMAPICache;
@@ -1,6 +1,7 @@
 import * as path from 'path';
 import { fs, log, types, util } from 'vortex-api';
 import { GAME_ID, SMAPI_EXE, STEAMAPP_ID, GOGAPP_ID, XBOXAPP_ID } from './common';
+import { getGameVersion } from './game-version';
 import SDVSaves from './saved-games';
 import { ISaveGameData } from './types/save-types';
 
@@ -70,6 +71,13 @@ export default class StardewValley implements types.IGame {
     // This path can be changed with a CLI parameter in SMAPI, but we don't want to use that here.
     queryModPath = (): string => 'Mods' ;
 
+    // The game version is used by Vortex and sent with requests to the SMAPI API.
+    async getInstalledVersion(discovery: types.IDiscoveryResult): Promise<string> {
+        const version = await getGameVersion(discovery.path);
+        if (!version) throw new Error('Could not detect the installed version of Stardew Valley.');
+        return version;
+    }
+
     // Setup function that runs when the game is managed and when switching to it.
     async setup(discovery: types.IDiscoveryResult) {
         try {
@@ -0,0 +1,133 @@
+import { meetsMinimumVersion, SemanticVersion } from '../semantic-version';
+
+describe('SemanticVersion.parse', () => {
+    it('parses a standard version', () => {
+        const version = SemanticVersion.parse('1.2.3-beta.4+build.5');
+        expect(version).toMatchObject({ major: 1, minor: 2, patch: 3, platformRelease: 0, prerelease: 'beta.4', build: 'build.5' });
+    });
+
+    it('parses two part versions with a zero patch', () => {
+        expect(SemanticVersion.parse('1.2')).toMatchObject({ major: 1, minor: 2, patch: 0 });
+        expect(SemanticVersion.parse('1.2').toString()).toBe('1.2.0');
+    });
+
+    it('parses four part versions only when non-standard versions are allowed', () => {
+        expect(SemanticVersion.parse('1.2.3.4')).toMatchObject({ major: 1, minor: 2, patch: 3, platformRelease: 4 });
+        expect(SemanticVersion.parse('1.2.3.4').toString()).toBe('1.2.3.4');
+        expect(SemanticVersion.parse('1.2.3.4', false)).toBeUndefined();
+    });
+
+    it('accepts a leading v', () => {
+        expect(SemanticVersion.parse('v1.2.3')).toMatchObject({ major: 1, minor: 2, patch: 3 });
+        expect(SemanticVersion.parse('V1.2')).toMatchObject({ major: 1, minor: 2, patch: 0 });
+    });
+
+    it('ignores surrounding whitespace', () => {
+        expect(SemanticVersion.parse(' 1.2.3 ')).toMatchObject({ major: 1, minor: 2, patch: 3 });
+    });
+
+    it.each([
+        [''], ['1'], ['abc'], ['v'], ['1.2.3.4.5'], ['01.2.3'], ['1.2.3-'], ['1.2.3+'], ['1..2'], ['vv1.2.3'],
+    ])('returns undefined for "%s"', (input) => {
+        expect(SemanticVersion.parse(input)).toBeUndefined();
+    });
+
+    it('returns undefined for missing input', () => {
+        expect(SemanticVersion.parse(undefined)).toBeUndefined();
+        expect(SemanticVersion.parse(null)).toBeUndefined();
+    });
+
+    it('returns an existing SemanticVersion unchanged', () => {
+        const version = new SemanticVersion(1, 2, 3);
+        expect(SemanticVersion.parse(version)).toBe(version);
+    });
+});
+
+describe('SemanticVersion.compare', () => {
+    it('orders prereleases before the release', () => {
+        expect(SemanticVersion.compare('1.0.0-alpha', '1.0.0-beta')).toBeLessThan(0);
+        expect(SemanticVersion.compare('1.0.0-beta', '1.0.0')).toBeLessThan(0);
+        expect(SemanticVersion.compare('1.0.0-alpha', '1.0.0')).toBeLessThan(0);
+        expect(SemanticVersion.compare('1.0.0', '1.0.0-alpha')).toBeGreaterThan(0);
+    });
+
+    it('follows the semver prerelease ordering', () => {
+        const ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0'];
+        for (let i = 1; i < ordered.length; i++) expect(SemanticVersion.compare(ordered[i - 1], ordered[i])).toBeLessThan(0);
+    });
+
+    it('compares prerelease tags without case sensitivity', () => {
+        expect(SemanticVersion.compare('1.0.0-Beta', '1.0.0-beta')).toBe(0);
+    });
+
+    it('ignores build metadata', () => {
+        expect(SemanticVersion.compare('1.0.0+build.1', '1.0.0+build.2')).toBe(0);
+        expect(SemanticVersion.compare('1.0.0+build', '1.0.0')).toBe(0);
+        expect(SemanticVersion.compare('1.0.0-beta+exp.sha.5114f85', '1.0.0-beta')).toBe(0);
+    });
+
+    it('compares numbers numerically', () => {
+        expect(SemanticVersion.compare('1.10.0', '1.9.0')).toBeGreaterThan(0);
+        expect(SemanticVersion.compare('2.0.0', '10.0.0')).toBeLessThan(0);
+    });
+
+    it('treats a missing patch as zero', () => {
+        expect(SemanticVersion.compare('1.2', '1.2.0')).toBe(0);
+        expect(SemanticVersion.compare('1.2', '1.2.1')).toBeLessThan(0);
+    });
+
+    it('orders four part versions after the three part version', () => {
+        expect(SemanticVersion.compare('1.2.3.4', '1.2.3')).toBeGreaterThan(0);
+        expect(SemanticVersion.compare('1.2.3.4', '1.2.4')).toBeLessThan(0);
+        expect(SemanticVersion.compare('1.2.3.0', '1.2.3')).toBe(0);
+    });
+
+    it('compares versions with a leading v like any other', () => {
+        expect(SemanticVersion.compare('v1.2.3', '1.2.3')).toBe(0);
+        expect(SemanticVersion.compare('v1.2.3', 'v1.10.0')).toBeLessThan(0);
+    });
+
+    it('falls back to comparing text when a version is invalid', () => {
+        expect(SemanticVersion.compare('abc', 'ABC')).toBe(0);
+        expect(SemanticVersion.compare('abc', 'abd')).toBeLessThan(0);
+    });
+});
+
+describe('SemanticVersion.isOlderThan and isNewerThan', () => {
+    it('compares against a parsed version', () => {
+        const version = SemanticVersion.parse('1.2.3');
+        expect(version.isOlderThan('1.2.4')).toBe(true);
+        expect(version.isNewerThan('1.2.3-beta')).toBe(true);
+        expect(version.isOlderThan('1.2.3+build')).toBe(false);
+        expect(version.isNewerThan('1.2.3+build')).toBe(false);
+    });
+
+    it('returns false for invalid versions', () => {
+        const version = SemanticVersion.parse('1.2.3');
+        expect(version.isOlderThan('not a version')).toBe(false);
+        expect(version.isNewerThan('not a version')).toBe(false);
+    });
+});
+
+describe('meetsMinimumVersion', () => {
+    it('accepts the same or a newer version', () => {
+        expect(meetsMinimumVersion('3.18.0', '3.18.0')).toBe(true);
+        expect(meetsMinimumVersion('4.0.0', '3.18')).toBe(true);
+        expect(meetsMinimumVersion('v4.0.0', '3.18')).toBe(true);
+    });
+
+    it('rejects an older version or a prerelease of the minimum', () => {
+        expect(meetsMinimumVersion('3.17.2', '3.18.0')).toBe(false);
+        expect(meetsMinimumVersion('3.18.0-beta', '3.18.0')).toBe(false);
+    });
+
+    it('ignores build metadata', () => {
+        expect(meetsMinimumVersion('3.18.0+build', '3.18.0')).toBe(true);
+    });
+
+    it('assumes invalid or missing versions are fine', () => {
+        expect(meetsMinimumVersion('not a version', '3.18.0')).toBe(true);
+        expect(meetsMinimumVersion('3.18.0', 'not a version')).toBe(true);
+        expect(meetsMinimumVersion(undefined, '3.18.0')).toBe(true);
+    });
+});
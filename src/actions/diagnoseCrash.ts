@@ -0,0 +1,80 @@
+import { actions, log, selectors, types } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { diagnoseCrash } from '../smapi-log/crash';
+import { readLogFile, SMAPI_LOG_CRASH } from '../smapi-log/files';
+import { ICrashSuspect } from '../types/log-types';
+
+// Only offer buttons for the most likely suspects, the rest are listed in the dialog text.
+const MAX_SUSPECT_ACTIONS = 3;
+
+async function onDiagnoseCrash(api: types.IExtensionApi, logText?: string) {
+    if (logText === undefined) {
+        try {
+            logText = await readLogFile(SMAPI_LOG_CRASH);
+        }
+        catch(err) {
+            api.sendNotification({ type: 'info', title: 'No SMAPI crash log found.', message: '', displayMS: 5000 });
+            return;
+        }
+    }
+
+    const state = api.getState();
+    const profileId: string = selectors.lastActiveProfileForGame(state, GAME_ID);
+    const profile: types.IProfile = selectors.profileById(state, profileId);
+    const mods: { [id: string]: types.IMod } = state.persistent.mods?.[GAME_ID] || {};
+
+    // Only suspects installed with Vortex and enabled in this profile can be disabled.
+    const suspects: ICrashSuspect[] = diagnoseCrash(logText, mods);
+    const actionable = suspects.filter(s => !!s.vortexModId && profile?.modState?.[s.vortexModId]?.enabled).slice(0, MAX_SUSPECT_ACTIONS);
+
+    if (!suspects.length) {
+        return api.showDialog('info', 'Crash diagnosis', {
+            text: 'Vortex could not find any installed mods in the stack traces of your SMAPI crash log. ' +
+                'You may want to share your log with the community to get help working out the cause.'
+        }, [ { label: 'Close' } ]);
+    }
+
+    const describe = (s: ICrashSuspect): string => {
+        const name = s.vortexModName && s.vortexModName !== s.name ? `${s.name} (${s.vortexModName})` : s.name;
+        const installed = s.vortexModId ? '' : ' [not installed by Vortex]';
+        return `${name}${installed}\n${s.reasons.map(r => `  - ${r}`).join('\n')}`;
+    }
+
+    const labelFor = (s: ICrashSuspect): string => `Disable ${s.vortexModName || s.name}`;
+
+    const result = await api.showDialog('question', 'Crash diagnosis', {
+        text: 'Vortex analysed the stack traces in your SMAPI crash log and found the mods below, most likely first. ' +
+            'Disabling the mod at the top of the list is a good place to start.',
+        message: suspects.map(describe).join('\n\n'),
+    }, [
+        { label: 'Close' },
+        ...actionable.map(s => ({ label: labelFor(s) }))
+    ]);
+
+    const toDisable = actionable.find(s => labelFor(s) === result.action);
+    if (!toDisable) return;
+
+    try {
+        api.store.dispatch(actions.setModEnabled(profileId, toDisable.vortexModId, false));
+        api.store.dispatch(actions.setDeploymentNecessary(GAME_ID, true));
+        api.sendNotification({
+            type: 'success',
+            title: 'Mod disabled',
+            message: `${toDisable.vortexModName || toDisable.name} has been disabled in ${profile?.name || 'the current profile'}.`,
+            displayMS: 5000
+        });
+    }
+    catch(err) {
+        log('error', 'Failed to disable mod after crash diagnosis', { modId: toDisable.vortexModId, err });
+        api.showErrorNotification('Failed to disable mod', err, { allowReport: false });
+    }
+}
+
+// The diagnosis is started from notification and dialog buttons, which don't handle rejected promises.
+function diagnoseFailed(api: types.IExtensionApi, err: Error) {
+    log('error', 'Failed to diagnose SMAPI crash', { error: err.message });
+    api.showErrorNotification('Failed to diagnose the SMAPI crash', err, { allowReport: false });
+}
+
+export { diagnoseFailed };
+export default onDiagnoseCrash;
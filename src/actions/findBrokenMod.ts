@@ -0,0 +1,162 @@
+import { actions, log, selectors, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { buildModGraph, dependencyClosure, ModGraph } from '../dependency-graph';
+import { hasManifests } from '../smapi-attributes';
+import { setBisectState } from '../state/actions';
+import { IBisectState } from '../types/state-types';
+
+const NOTIFICATION_ID = 'sdv-find-broken-mod';
+
+const getBisectState = (api: types.IExtensionApi): IBisectState | undefined =>
+    api.getState().persistent?.['stardewvalley']?.bisect;
+
+function getMods(api: types.IExtensionApi): { [id: string]: types.IMod } {
+    return api.getState().persistent.mods?.[GAME_ID] || {};
+}
+
+const modName = (api: types.IExtensionApi, modId: string): string => {
+    const mod = getMods(api)[modId];
+    return mod ? util.renderModName(mod) : modId;
+}
+
+async function onFindBrokenMod(api: types.IExtensionApi) {
+    if (getBisectState(api) !== undefined) return showStepNotification(api);
+
+    const state = api.getState();
+    const profileId: string = selectors.lastActiveProfileForGame(state, GAME_ID);
+    const profile: types.IProfile = selectors.profileById(state, profileId);
+    const mods = getMods(api);
+    // Only SMAPI mods take part, SMAPI itself and other mod types are left alone.
+    const enabled = Object.keys(profile?.modState || {})
+        .filter(id => profile.modState[id].enabled && mods[id]?.type !== 'SMAPI' && hasManifests(mods[id]));
+
+    if (enabled.length < 2) {
+        return api.sendNotification({ type: 'info', title: 'Not enough mods to search', message: 'You need at least two SMAPI mods enabled to search for a broken mod.', displayMS: 5000 });
+    }
+
+    const result = await api.showDialog('question', 'Find the broken mod', {
+        text: 'Vortex will help you find a broken mod by disabling half of your SMAPI mods at a time. After each step, launch the game and tell Vortex if the problem is still there. '
+            + 'Mods that other mods require will stay enabled alongside them.\n\n'
+            + `This will take up to ${Math.ceil(Math.log2(enabled.length))} steps. Your enabled mods will be restored at the end. Would you like to start?`,
+    }, [ { label: 'Cancel' }, { label: 'Start' } ]);
+    if (result.action !== 'Start') return;
+
+    const bisect: IBisectState = { profileId, originalEnabled: enabled, candidates: enabled, innocent: [], excluded: [], testing: [], step: 0 };
+    return nextStep(api, bisect);
+}
+
+function planStep(graph: ModGraph, bisect: IBisectState): string[] | undefined {
+    const candidates = bisect.candidates;
+    if (candidates.length < 2) return undefined;
+    // Try each half, as enabling the dependencies of one half may pull in all the candidates.
+    const middle = Math.ceil(candidates.length / 2);
+    for (const half of [candidates.slice(0, middle), candidates.slice(middle)]) {
+        const testing = dependencyClosure(graph, [...bisect.innocent, ...half]);
+        if (candidates.some(c => !testing.has(c))) return [...testing];
+    }
+    // The remaining mods can't be separated without breaking their dependencies.
+    return undefined;
+}
+
+async function nextStep(api: types.IExtensionApi, bisect: IBisectState) {
+    const graph = buildModGraph(getMods(api), bisect.originalEnabled);
+    const testing = planStep(graph, bisect);
+    if (!testing) return finish(api, bisect);
+
+    const next: IBisectState = { ...bisect, testing, step: bisect.step + 1 };
+    api.store.dispatch(setBisectState(next));
+    await applyEnabled(api, next.profileId, next.originalEnabled, testing);
+    showStepNotification(api);
+}
+
+async function applyEnabled(api: types.IExtensionApi, profileId: string, modIds: string[], enabled: string[]) {
+    util.batchDispatch(api.store, modIds.map(id => actions.setModEnabled(profileId, id, enabled.includes(id))));
+    api.store.dispatch(actions.setDeploymentNecessary(GAME_ID, true));
+    try {
+        await util.toPromise(cb => api.events.emit('deploy-mods', cb));
+    }
+    catch(err) {
+        log('warn', 'Failed to deploy while searching for a broken mod', err);
+    }
+}
+
+function showStepNotification(api: types.IExtensionApi) {
+    const bisect = getBisectState(api);
+    if (!bisect) return;
+    api.sendNotification({
+        id: NOTIFICATION_ID,
+        type: 'activity',
+        title: `Finding the broken mod: step ${bisect.step}`,
+        message: `${bisect.testing.length} of ${bisect.originalEnabled.length} SMAPI mods are enabled. Launch the game and check if the problem is still there.`,
+        noDismiss: true,
+        actions: [
+            { title: 'Game works', action: (dismiss) => { dismiss(); report(api, true).catch(err => searchFailed(api, err)); } },
+            { title: 'Still broken', action: (dismiss) => { dismiss(); report(api, false).catch(err => searchFailed(api, err)); } },
+            { title: 'Cancel', action: (dismiss) => { dismiss(); cancel(api).catch(err => searchFailed(api, err)); } },
+        ]
+    });
+}
+
+function searchFailed(api: types.IExtensionApi, err: Error) {
+    log('error', 'Failed to continue the search for a broken mod', { error: err.message });
+    api.showErrorNotification('Failed to continue the search for a broken mod', err);
+}
+
+async function report(api: types.IExtensionApi, works: boolean) {
+    const bisect = getBisectState(api);
+    if (!bisect) return;
+    const tested = bisect.candidates.filter(c => bisect.testing.includes(c));
+    const untested = bisect.candidates.filter(c => !bisect.testing.includes(c));
+    const next: IBisectState = works
+        ? { ...bisect, candidates: untested, innocent: [...bisect.innocent, ...tested] }
+        : { ...bisect, candidates: tested, excluded: [...bisect.excluded, ...untested] };
+    return nextStep(api, next);
+}
+
+async function cancel(api: types.IExtensionApi) {
+    const bisect = getBisectState(api);
+    if (!bisect) return;
+    await applyEnabled(api, bisect.profileId, bisect.originalEnabled, bisect.originalEnabled);
+    api.store.dispatch(setBisectState(undefined));
+    api.sendNotification({ type: 'info', title: 'Search for broken mod cancelled', message: 'Your enabled mods have been restored.', displayMS: 5000 });
+}
+
+async function finish(api: types.IExtensionApi, bisect: IBisectState) {
+    // Put everything back the way it was before asking what to do with the result.
+    await applyEnabled(api, bisect.profileId, bisect.originalEnabled, bisect.originalEnabled);
+    api.store.dispatch(setBisectState(undefined));
+
+    const culprits = bisect.candidates;
+    if (!culprits.length) {
+        return api.showDialog('info', 'Find the broken mod', {
+            text: 'Vortex could not narrow the problem down to a single mod. It may be caused by a combination of mods, or by something other than your SMAPI mods. Your enabled mods have been restored.'
+        }, [ { label: 'Close' } ]);
+    }
+
+    const names = culprits.map(id => modName(api, id));
+    const result = await api.showDialog('info', 'Broken mod found', {
+        text: culprits.length === 1
+            ? 'The problem appears to be caused by the mod below. Your other enabled mods have been restored.'
+            : 'The problem appears to be caused by the group of mods below, which depend on each other. Your other enabled mods have been restored.',
+        message: names.join('\n')
+    }, [
+        { label: 'Close' },
+        { label: culprits.length === 1 ? 'Disable this mod' : 'Disable these mods' }
+    ]);
+    if (result.action === 'Close') return;
+
+    await applyEnabled(api, bisect.profileId, culprits, []);
+}
+
+/**
+ * Restore the search notification if Vortex was restarted part way through.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ *
+ */
+function resumeFindBrokenMod(api: types.IExtensionApi) {
+    if (getBisectState(api) !== undefined) showStepNotification(api);
+}
+
+export default onFindBrokenMod;
+export { resumeFindBrokenMod };
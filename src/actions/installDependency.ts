@@ -0,0 +1,131 @@
+import { actions, log, selectors, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { IModRulePlusType } from '../types/smapi-types';
+
+// The Nexus Mods file category for main files.
+const MAIN_FILE_CATEGORY = 1;
+
+/**
+ * A dependency which isn't installed, built from the rule added to the dependent mod.
+ *
+ * @interface IMissingDependencyInfo
+ */
+interface IMissingDependencyInfo {
+    uniqueId: string;
+    name: string;
+    nexusId?: number;
+    url?: string;
+    rule: IModRulePlusType;
+}
+
+/**
+ * The fields used from the Nexus Mods file list of a dependency.
+ *
+ * @interface INexusModFile
+ */
+interface INexusModFile {
+    file_id: number;
+    file_name: string;
+    category_id: number;
+    is_primary: boolean;
+    uploaded_timestamp: number;
+}
+
+/**
+ * Get the dependencies of a mod which point at mods that aren't installed.
+ *
+ * @param {IModRulePlusType[]} rules - The SMAPI dependency rules of a mod.
+ * @returns {IMissingDependencyInfo[]} Required dependencies without a matching mod.
+ *
+ */
+function getMissingDependencies(rules: IModRulePlusType[]): IMissingDependencyInfo[] {
+    return rules
+        .filter(r => r.type === 'requires' && !r.reference?.id)
+        .map(rule => {
+            const uniqueId: string = rule.reference.idHint || rule.reference.fileExpression || rule.reference.description;
+            return {
+                uniqueId,
+                name: rule.reference.description || uniqueId,
+                nexusId: rule.extra?.nexusId,
+                url: rule.downloadHint?.url,
+                rule
+            };
+        })
+        .filter(d => !!d.uniqueId);
+}
+
+/**
+ * Let the user know a mod is missing requirements, and offer to install them.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {types.IMod} mod - The dependent mod.
+ * @param {IMissingDependencyInfo[]} missing - The requirements which aren't installed.
+ *
+ */
+function notifyMissingDependencies(api: types.IExtensionApi, mod: types.IMod, missing: IMissingDependencyInfo[]) {
+    if (!missing.length) return;
+    const canInstall = missing.some(m => !!m.nexusId);
+    api.sendNotification({
+        id: `sdv-missing-dependencies-${mod.id}`,
+        type: 'warning',
+        title: `${util.renderModName(mod)} is missing requirements`,
+        message: missing.map(m => m.name).join(', '),
+        actions: [
+            {
+                title: canInstall ? 'Install' : 'Open mod page',
+                action: (dismiss) => {
+                    dismiss();
+                    installMissingDependencies(api, mod.id, missing);
+                }
+            }
+        ]
+    });
+}
+
+async function installMissingDependencies(api: types.IExtensionApi, modId: string, missing: IMissingDependencyInfo[]) {
+    for (const dependency of missing) {
+        if (!dependency.nexusId) {
+            // Without a Nexus ID we can only send the user to the mod page.
+            if (dependency.url) util.opn(dependency.url).catch(() => undefined);
+            continue;
+        }
+        try {
+            await installFromNexus(api, modId, dependency);
+        }
+        catch(err) {
+            if (err instanceof util.UserCanceled || err instanceof util.ProcessCanceled) continue;
+            log('error', 'Failed to install SMAPI dependency', { uniqueId: dependency.uniqueId, nexusId: dependency.nexusId, error: err.message });
+            api.showErrorNotification(`Failed to install ${dependency.name}`, err, { allowReport: false });
+            if (dependency.url) util.opn(dependency.url).catch(() => undefined);
+        }
+    }
+}
+
+async function installFromNexus(api: types.IExtensionApi, modId: string, dependency: IMissingDependencyInfo) {
+    if (!api.ext?.nexusGetModFiles || !api.ext?.nexusDownload) throw new Error('Nexus Mods integration is not available.');
+
+    const files: INexusModFile[] = await api.ext.nexusGetModFiles(GAME_ID, dependency.nexusId);
+    // Use the newest main file, or the newest file if there isn't one.
+    const sorted = [...(files || [])].sort((a, b) => (b.uploaded_timestamp || 0) - (a.uploaded_timestamp || 0));
+    const file = sorted.find(f => f.category_id === MAIN_FILE_CATEGORY || f.is_primary) || sorted[0];
+    if (!file) throw new util.NotFound(`No files found for ${dependency.name} on Nexus Mods.`);
+
+    const downloadId: string = await api.ext.nexusDownload(GAME_ID, dependency.nexusId, file.file_id, file.file_name, false);
+    const newModId: string = await util.toPromise(cb => api.events.emit('start-install-download', downloadId, true, cb));
+
+    // Link the new mod to the dependent, replacing the unresolved rule.
+    const profileId: string = selectors.lastActiveProfileForGame(api.getState(), GAME_ID);
+    const resolved: IModRulePlusType = {
+        type: 'requires',
+        reference: { id: newModId, description: dependency.uniqueId },
+        ...(dependency.rule.extra ? { extra: dependency.rule.extra } : {})
+    };
+    util.batchDispatch(api.store, [
+        actions.removeModRule(GAME_ID, modId, dependency.rule),
+        actions.addModRule(GAME_ID, modId, resolved),
+        actions.setModEnabled(profileId, newModId, true),
+        actions.setDeploymentNecessary(GAME_ID, true),
+    ]);
+}
+
+export { IMissingDependencyInfo, getMissingDependencies, notifyMissingDependencies };
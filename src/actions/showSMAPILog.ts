@@ -1,37 +1,55 @@
-import * as path from 'path';
-import { fs, types, util } from 'vortex-api';
+import { actions, types, util } from 'vortex-api';
 import { clipboard } from 'electron';
 import { app } from '@electron/remote';
+import { getLogFiles } from '../smapi-log/files';
+import onDiagnoseCrash, { diagnoseFailed } from './diagnoseCrash';
+import { renderScrubDiff, scrubSMAPILog } from '../smapi-log/scrubber';
+
+const SMAPI_LOG_DIALOG = 'sdv-smapi-log-viewer';
 
 async function onShowSMAPILog(api: types.IExtensionApi) {
-    //Read and display the log.
-    const basePath = path.join(util.getVortexPath('appData'), 'stardewvalley', 'errorlogs');
-    try {
-      //If the crash log exists, show that.
-      await showSMAPILog(api, basePath, "SMAPI-crash.txt");
-    } catch (err) {
-      try {
-        //Otherwise show the normal log.
-        await showSMAPILog(api, basePath, "SMAPI-latest.txt");
-      } catch (err) {
-        //Or Inform the user there are no logs.
-        api.sendNotification({ type: 'info', title: 'No SMAPI logs found.', message: '', displayMS: 5000 });
-      }
+    // Make sure there's something to show before opening the log viewer.
+    const logFiles = await getLogFiles();
+    if (!logFiles.length) {
+      //Inform the user there are no logs.
+      api.sendNotification({ type: 'info', title: 'No SMAPI logs found.', message: '', displayMS: 5000 });
+      return;
+    }
+    // If the game crashed, offer to work out which mods were involved.
+    if (logFiles[0].isCrash) {
+      api.sendNotification({
+        id: 'sdv-smapi-crash-found',
+        type: 'warning',
+        title: 'SMAPI crash log found',
+        message: 'Vortex can check which of your mods were involved.',
+        actions: [{ title: 'Diagnose', action: (dismiss) => { dismiss(); onDiagnoseCrash(api).catch(err => diagnoseFailed(api, err)); } }]
+      });
     }
+    api.store.dispatch(actions.setDialogVisible(SMAPI_LOG_DIALOG));
 }
 
-async function showSMAPILog(api: types.IExtensionApi, basePath: string, logFile: string) {
-    const logData = await fs.readFileAsync(path.join(basePath, logFile), { encoding: 'utf-8' });
-    await api.showDialog('info', 'SMAPI Log', {
-      text: 'Your SMAPI log is displayed below. To share it, click "Copy & Share" which will copy it to your clipboard and open the SMAPI log sharing website. ' +
-        'Next, paste your code into the text box and press "save & parse log". You can now share a link to this page with others so they can see your log file.\n\n' + logData
-    }, [{
-      label: 'Copy & Share log', action: () => {
-        const timestamp = new Date().toISOString().replace(/^.+T([^\.]+).+/, '$1');
-        clipboard.writeText(`[${timestamp} INFO Vortex] Log exported by Vortex ${app.getVersion()}.\n` + logData);
-        return util.opn('https://smapi.io/log').catch(() => undefined);
-      }
-    }, { label: 'Close', action: () => undefined }]);
+async function shareSMAPILog(api: types.IExtensionApi, logData: string) {
+    // Remove personal information and let the user review the changes before anything is copied.
+    const scrubbed = scrubSMAPILog(logData);
+    if (scrubbed.changes.length) {
+      const result = await api.showDialog('question', 'Review anonymised log', {
+        text: `Before sharing, Vortex has removed personal information such as your username and user folders from ${scrubbed.changes.length} line(s) of your SMAPI log. ` +
+          'Please review the changes below.',
+        message: renderScrubDiff(scrubbed.changes)
+      }, [
+        { label: 'Cancel' },
+        { label: 'Share original log' },
+        { label: 'Share anonymised log', default: true }
+      ]);
+      if (result.action === 'Cancel') return;
+      if (result.action === 'Share anonymised log') logData = scrubbed.text;
+    }
+
+    // Copy the log to the clipboard and open the SMAPI log parser so the user can paste it in.
+    const timestamp = new Date().toISOString().replace(/^.+T([^\.]+).+/, '$1');
+    clipboard.writeText(`[${timestamp} INFO Vortex] Log exported by Vortex ${app.getVersion()}.\n` + logData);
+    return util.opn('https://smapi.io/log').catch(() => undefined);
 }
 
-export default onShowSMAPILog;
\ No newline at end of file
+export default onShowSMAPILog;
+export { SMAPI_LOG_DIALOG, shareSMAPILog };
@@ -1,3 +1,4 @@
+import * as path from 'path';
 import { log } from 'vortex-api';
 import { ISMAPIManifest } from './types/smapi-types';
 
@@ -9,6 +10,12 @@ const STEAMAPP_ID = '413150';
 const GOGAPP_ID = '1453375253';
 const XBOXAPP_ID = 'ConcernedApe.StardewValleyPC';
 
+// Covers StardewModdingAPI.exe on Windows and the StardewModdingAPI script on Linux and MacOS, which has no extension.
+function isSMAPIExecutable(executable: string): boolean {
+    const name = path.basename(executable || '');
+    return path.basename(name, path.extname(name)).toLowerCase() === path.basename(SMAPI_EXE, '.exe').toLowerCase();
+}
+
 function getManifestValue(manifest: any, key: string): any {
     if (!manifest) return undefined;
     if (manifest[key]) return manifest[key];
@@ -20,4 +27,4 @@ function getManifestValue(manifest: any, key: string): any {
     }
 }
 
-export { GAME_ID, SMAPI_EXE, STEAMAPP_ID, GOGAPP_ID, XBOXAPP_ID, getManifestValue };
\ No newline at end of file
+export { GAME_ID, SMAPI_EXE, STEAMAPP_ID, GOGAPP_ID, XBOXAPP_ID, getManifestValue, isSMAPIExecutable };
\ No newline at end of file
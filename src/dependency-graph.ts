@@ -0,0 +1,143 @@
+import { types } from 'vortex-api';
+import { getManifests, getUniqueIds, hasManifests } from './smapi-attributes';
+import { ISMAPIManifest } from './types/smapi-types';
+
+/**
+ * A dependency from a SMAPI manifest, with the key casing normalised.
+ *
+ * @interface ISMAPIDependency
+ */
+interface ISMAPIDependency {
+    UniqueID: string;
+    MinimumVersion?: string;
+    isRequired: boolean;
+    /**True if this dependency comes from the ContentPackFor field. */
+    isContentPackFor?: boolean;
+}
+
+/**
+ * A Vortex mod and the other Vortex mods it requires, based on the SMAPI manifests it contains.
+ *
+ * @interface IModGraphNode
+ */
+interface IModGraphNode {
+    modId: string;
+    uniqueIds: string[];
+    /**Vortex mod IDs of the mods this mod requires. */
+    requires: string[];
+    /**Required UniqueIDs which are not provided by any of the mods in the graph. */
+    missing: string[];
+}
+
+type ModGraph = { [modId: string]: IModGraphNode };
+
+// Manifests are written by hand, so key casing varies. This avoids the warning from getManifestValue for optional keys.
+function readKey(input: object, key: string): any {
+    if (!input) return undefined;
+    const match = Object.keys(input).find(k => k.toLowerCase() === key.toLowerCase());
+    return match !== undefined ? input[match] : undefined;
+}
+
+/**
+ * Get all the dependencies of a manifest, including the mod a content pack is for.
+ *
+ * @param {ISMAPIManifest} manifest - The SMAPI manifest.
+ * @returns {ISMAPIDependency[]} Normalised dependencies.
+ *
+ */
+function getManifestDependencies(manifest: ISMAPIManifest): ISMAPIDependency[] {
+    const result: ISMAPIDependency[] = [];
+    const dependencies = readKey(manifest, 'Dependencies');
+    for (const dependency of (Array.isArray(dependencies) ? dependencies : [])) {
+        const UniqueID: string = readKey(dependency, 'UniqueID');
+        if (!UniqueID) continue;
+        // SMAPI treats dependencies as required unless they say otherwise.
+        const isRequired: boolean = readKey(dependency, 'IsRequired') !== false;
+        const MinimumVersion: string = readKey(dependency, 'MinimumVersion');
+        result.push(MinimumVersion ? { UniqueID, MinimumVersion, isRequired } : { UniqueID, isRequired });
+    }
+
+    const contentPackFor = readKey(manifest, 'ContentPackFor');
+    const parentId: string = readKey(contentPackFor, 'UniqueID');
+    if (!!parentId) {
+        const MinimumVersion: string = readKey(contentPackFor, 'MinimumVersion');
+        result.push({ UniqueID: parentId, isRequired: true, isContentPackFor: true, ...(MinimumVersion ? { MinimumVersion } : {}) });
+    }
+
+    return result;
+}
+
+/**
+ * Build a graph of required dependencies between Vortex mods, using the manifests saved on each mod.
+ *
+ * @param {{ [id: string]: types.IMod }} mods - Installed mods for Stardew Valley.
+ * @param {string[]} [modIds] - Limit the graph to these mods (e.g. the ones enabled in a profile).
+ * @returns {ModGraph} The graph, keyed by Vortex mod ID.
+ *
+ */
+function buildModGraph(mods: { [id: string]: types.IMod }, modIds?: string[]): ModGraph {
+    const included = (modIds || Object.keys(mods || {})).filter(id => hasManifests(mods?.[id]));
+    const providers: { [uniqueId: string]: string } = {};
+    for (const modId of included) {
+        for (const uniqueId of getUniqueIds(mods[modId])) providers[uniqueId.toLowerCase()] = modId;
+    }
+
+    return included.reduce((graph: ModGraph, modId: string) => {
+        const manifests = getManifests(mods[modId]);
+        const node: IModGraphNode = { modId, uniqueIds: Object.keys(manifests), requires: [], missing: [] };
+        for (const manifest of Object.values(manifests)) {
+            for (const dependency of getManifestDependencies(manifest).filter(d => d.isRequired)) {
+                const provider = providers[dependency.UniqueID.toLowerCase()];
+                if (provider === undefined) {
+                    if (!node.missing.includes(dependency.UniqueID)) node.missing.push(dependency.UniqueID);
+                }
+                // Archives with several manifests may depend on themselves.
+                else if (provider !== modId && !node.requires.includes(provider)) node.requires.push(provider);
+            }
+        }
+        graph[modId] = node;
+        return graph;
+    }, {});
+}
+
+/**
+ * Get the given mods and everything they require, directly or indirectly.
+ *
+ * @param {ModGraph} graph - The dependency graph.
+ * @param {string[]} modIds - The starting mods.
+ * @returns {Set<string>} The mod IDs in the closure, including the starting mods.
+ *
+ */
+function dependencyClosure(graph: ModGraph, modIds: string[]): Set<string> {
+    const result = new Set<string>();
+    const queue = [...modIds];
+    while (queue.length) {
+        const modId = queue.shift();
+        if (result.has(modId)) continue;
+        result.add(modId);
+        queue.push(...(graph[modId]?.requires || []));
+    }
+    return result;
+}
+
+/**
+ * Get the given mods and everything that requires them, directly or indirectly.
+ *
+ * @param {ModGraph} graph - The dependency graph.
+ * @param {string[]} modIds - The starting mods.
+ * @returns {Set<string>} The mod IDs in the closure, including the starting mods.
+ *
+ */
+function dependantClosure(graph: ModGraph, modIds: string[]): Set<string> {
+    const result = new Set<string>();
+    const queue = [...modIds];
+    while (queue.length) {
+        const modId = queue.shift();
+        if (result.has(modId)) continue;
+        result.add(modId);
+        queue.push(...Object.values(graph).filter(n => n.requires.includes(modId)).map(n => n.modId));
+    }
+    return result;
+}
+
+export { ISMAPIDependency, IModGraphNode, ModGraph, readKey, getManifestDependencies, buildModGraph, dependencyClosure, dependantClosure };
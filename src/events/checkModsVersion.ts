@@ -0,0 +1,104 @@
+import { actions, log, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import SMAPI_API from '../SMAPI_API';
+import { getCompatibility, getManifests, getSMAPIAttributes, hasManifests } from '../smapi-attributes';
+import { IAPIMod, ISMAPICompatibility, ISMAPIUpdateInfo } from '../types/smapi-types';
+
+export default async function checkModsVersion(api: types.IExtensionApi, gameId: string, mods: { [id: string]: types.IMod }) {
+    if (gameId !== GAME_ID) return;
+    const smapiMods = Object.values(mods || {}).filter(hasManifests);
+    if (!smapiMods.length) return;
+
+    const smapi = new SMAPI_API(api);
+    // Include the metadata so we get the compatibility status too.
+    const results = await smapi.fetchModInfo(true, smapiMods.reduce((prev, cur) => ({ ...prev, [cur.id]: cur }), {}));
+    if (!results.length) return;
+
+    // Index the results by UniqueID.
+    const byId: { [uniqueId: string]: IAPIMod } = {};
+    for (const result of results) {
+        if (result.errors?.length) log('debug', 'SMAPI API reported errors checking for updates', { id: result.id, errors: result.errors });
+        byId[result.id.toLowerCase()] = result;
+    }
+
+    const updateActions = [];
+    const problems: { mod: types.IMod, id: string, compat: ISMAPICompatibility }[] = [];
+    for (const mod of smapiMods) {
+        const manifests = getManifests(mod);
+        const updates: { [uniqueId: string]: ISMAPIUpdateInfo } = {};
+        const compatibility: { [uniqueId: string]: ISMAPICompatibility } = {};
+        for (const [id, manifest] of Object.entries(manifests)) {
+            const result = byId[id.toLowerCase()];
+            if (!!result?.suggestedUpdate) updates[id] = { installedVersion: manifest.Version, version: result.suggestedUpdate.version, url: result.suggestedUpdate.url };
+            const compat = compatibilityFromResult(result);
+            if (compat) compatibility[id] = compat;
+        }
+
+        Object.keys(compatibility)
+            .filter(id => ['Broken', 'Obsolete'].includes(compatibility[id].status))
+            .forEach(id => problems.push({ mod, id, compat: compatibility[id] }));
+
+        if (Object.keys(compatibility).length || !!getSMAPIAttributes(mod).smapiCompatibility) {
+            updateActions.push(actions.setModAttribute(GAME_ID, mod.id, 'smapiCompatibility', Object.keys(compatibility).length ? compatibility : undefined));
+        }
+
+        const hasUpdates = Object.keys(updates).length > 0;
+        if (hasUpdates || !!getSMAPIAttributes(mod).smapiUpdates) updateActions.push(actions.setModAttribute(GAME_ID, mod.id, 'smapiUpdates', hasUpdates ? updates : undefined));
+
+        // Nexus mods get their update indicator from Vortex, for everything else we can provide the newest version
+        // with an unknown file ID, which Vortex shows as an update available on the mod's website.
+        if (mod.attributes?.source === 'nexus') continue;
+        // Archives with several mods don't have a single version, so flag the first update against the archive.
+        const update: ISMAPIUpdateInfo | undefined = Object.values(updates)[0];
+        if (update) {
+            updateActions.push(actions.setModAttributes(GAME_ID, mod.id, { newestVersion: update.version, newestFileId: 'unknown', homepage: mod.attributes?.homepage || update.url }));
+        }
+        else if (!!getSMAPIAttributes(mod).smapiUpdates) {
+            // A previously found update has since been installed.
+            updateActions.push(actions.setModAttributes(GAME_ID, mod.id, { newestVersion: undefined, newestFileId: undefined }));
+        }
+    }
+
+    if (updateActions.length) util.batchDispatch(api.store, updateActions);
+    if (problems.length) notifyCompatibilityProblems(api, problems);
+}
+
+function notifyCompatibilityProblems(api: types.IExtensionApi, problems: { mod: types.IMod, id: string, compat: ISMAPICompatibility }[]) {
+    const unofficial = problems.filter(p => !!p.compat.unofficialUpdate);
+    api.sendNotification({
+        id: 'sdv-smapi-compatibility',
+        type: 'warning',
+        title: 'Some of your mods are broken or obsolete',
+        message: problems.map(p => util.renderModName(p.mod)).filter((name, idx, arr) => arr.indexOf(name) === idx).join(', '),
+        actions: [
+            {
+                title: 'More',
+                action: async (dismiss) => {
+                    const result = await api.showDialog('info', 'Mod compatibility', {
+                        text: 'According to the SMAPI mod compatibility list, the mods below don\'t work with your current version of the game or SMAPI. '
+                            + (unofficial.length ? 'Unofficial updates are available for some of them.' : ''),
+                        message: problems.map(p => `${util.renderModName(p.mod)} (${p.id}): ${p.compat.status}`
+                            + (p.compat.summary ? `\n  ${p.compat.summary.replace(/<[^>]+>/g, '')}` : '')
+                            + (p.compat.unofficialUpdate ? `\n  Unofficial update ${p.compat.unofficialUpdate.version}: ${p.compat.unofficialUpdate.url}` : '')).join('\n\n'),
+                    }, [
+                        { label: 'Close' },
+                        ...unofficial.map(p => ({ label: `Get unofficial ${p.id}` }))
+                    ]);
+                    const selected = unofficial.find(p => result.action === `Get unofficial ${p.id}`);
+                    if (selected) util.opn(selected.compat.unofficialUpdate.url).catch(() => undefined);
+                    else dismiss();
+                }
+            }
+        ]
+    });
+}
+
+function compatibilityFromResult(result: IAPIMod | undefined): ISMAPICompatibility | undefined {
+    const metadata = result?.metadata;
+    if (!metadata?.compatibilityStatus) return undefined;
+    const compat: ISMAPICompatibility = { status: metadata.compatibilityStatus };
+    if (metadata.compatibilitySummary) compat.summary = metadata.compatibilitySummary;
+    if (metadata.brokeIn) compat.brokeIn = metadata.brokeIn;
+    if (metadata.unofficial?.url) compat.unofficialUpdate = { version: metadata.unofficial.version, url: metadata.unofficial.url };
+    return compat;
+}
@@ -0,0 +1,68 @@
+import { log, types, util } from 'vortex-api';
+import SMAPI_API from '../SMAPI_API';
+import { SemanticVersion } from '../semantic-version';
+import { getSMAPIVersion } from '../smapi-version';
+import { findMinimumApiProblems, getEnabledMods, IMinimumApiProblem } from '../validation';
+
+const SMAPI_UNIQUE_ID = 'Pathoschild.SMAPI';
+const SMAPI_UPDATE_KEY = 'GitHub:Pathoschild/SMAPI';
+const SMAPI_PAGE = 'https://www.nexusmods.com/stardewvalley/mods/2400';
+
+/**
+ * Compare the installed version of SMAPI with the versions required by enabled mods and, optionally, the latest release.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {boolean} checkLatest - Also ask the SMAPI API for the latest version of SMAPI.
+ *
+ */
+export default async function checkSMAPIVersion(api: types.IExtensionApi, checkLatest: boolean) {
+    const version = await getSMAPIVersion(api);
+    // The game setup already lets the user know if SMAPI is missing.
+    if (!version) return;
+    log('debug', 'Detected SMAPI version', version);
+
+    checkMinimumApiVersions(api, version);
+    if (checkLatest) await checkLatestSMAPI(api, version);
+}
+
+function checkMinimumApiVersions(api: types.IExtensionApi, version: string) {
+    const problems = findMinimumApiProblems(getEnabledMods(api.getState()), version);
+    if (!problems.length) return api.dismissNotification('sdv-smapi-too-old');
+
+    const describe = (p: IMinimumApiProblem): string => `${p.name} needs SMAPI ${p.minimumApiVersion}, you have ${version}`;
+    api.sendNotification({
+        id: 'sdv-smapi-too-old',
+        type: 'warning',
+        title: problems.length === 1 ? describe(problems[0]) : `${problems.length} mods need a newer version of SMAPI`,
+        message: problems.length === 1
+            ? `Installed by Vortex as "${util.renderModName(problems[0].mod)}". Update SMAPI to use this mod.`
+            : problems.map(p => p.name).join(', '),
+        actions: [
+            ...(problems.length > 1 ? [{
+                title: 'More',
+                action: () => api.showDialog('info', 'SMAPI is out of date', {
+                    text: `You have SMAPI ${version}, but the mods below need a newer version. They won't be loaded until you update SMAPI.`,
+                    message: problems.map(p => `${describe(p)} (${util.renderModName(p.mod)})`).join('\n')
+                }, [ { label: 'Close' } ])
+            }] : []),
+            { title: 'Get SMAPI', action: () => util.opn(SMAPI_PAGE).catch(() => undefined) }
+        ]
+    });
+}
+
+async function checkLatestSMAPI(api: types.IExtensionApi, version: string) {
+    const smapi = new SMAPI_API(api);
+    const results = await smapi.sendQuery([{ id: SMAPI_UNIQUE_ID, installedVersion: version, updateKeys: [SMAPI_UPDATE_KEY] }]);
+    const latest = results.find(r => r.id.toLowerCase() === SMAPI_UNIQUE_ID.toLowerCase())?.suggestedUpdate;
+    if (!latest || !SemanticVersion.parse(latest.version)?.isNewerThan(version)) return;
+
+    api.sendNotification({
+        id: 'sdv-smapi-outdated',
+        type: 'info',
+        title: 'SMAPI update available',
+        message: `SMAPI ${latest.version} is available, you have ${version}.`,
+        actions: [
+            { title: 'Get SMAPI', action: () => util.opn(latest.url || SMAPI_PAGE).catch(() => undefined) }
+        ]
+    });
+}
@@ -0,0 +1,89 @@
+import { actions, log, selectors, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { readKey } from '../dependency-graph';
+import { findManifest } from '../smapi-attributes';
+import { IModRulePlusType } from '../types/smapi-types';
+import { findDuplicateUniqueIds, getEnabledMods, IDuplicateUniqueId } from '../validation';
+
+const NOTIFICATION_ID = 'sdv-duplicate-unique-ids';
+
+// The user has already told Vortex these mods conflict, so there's no need to ask again.
+const hasConflictRule = (a: types.IMod, b: types.IMod): boolean =>
+    !!(a.rules as IModRulePlusType[] || []).find(r => r.type === 'conflicts' && r.reference?.id === b.id)
+    || !!(b.rules as IModRulePlusType[] || []).find(r => r.type === 'conflicts' && r.reference?.id === a.id);
+
+const manifestVersion = (mod: types.IMod, uniqueId: string): string | undefined => {
+    return readKey(findManifest(mod, uniqueId), 'Version') || mod.attributes?.version;
+}
+
+/**
+ * Look for UniqueIDs provided by more than one enabled mod, which SMAPI will refuse to load.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {string} profileId - The profile to check.
+ * @param {string} [modId] - Only report duplicates involving this mod (e.g. one that was just enabled or installed).
+ *
+ */
+export default function checkDuplicateIds(api: types.IExtensionApi, profileId: string, modId?: string) {
+    const state = api.getState();
+    const profile: types.IProfile | undefined = selectors.profileById(state, profileId);
+    if (profile?.gameId !== GAME_ID) return;
+
+    const mods = getEnabledMods(state, profileId);
+    // A freshly installed mod may not have been enabled yet.
+    const newMod: types.IMod | undefined = modId ? state.persistent.mods?.[GAME_ID]?.[modId] : undefined;
+    if (newMod) mods[newMod.id] = newMod;
+
+    const duplicates = findDuplicateUniqueIds(mods)
+        .filter(d => !modId || d.mods.find(m => m.id === modId))
+        .filter(d => d.mods.some((a, idx) => d.mods.slice(idx + 1).some(b => !hasConflictRule(a, b))));
+    if (!duplicates.length) return;
+
+    const names = (d: IDuplicateUniqueId): string => d.mods.map(m => `"${util.renderModName(m)}"`).join(' and ');
+    api.sendNotification({
+        id: NOTIFICATION_ID,
+        type: 'warning',
+        title: 'Mods installed more than once',
+        message: duplicates.length === 1
+            ? `${names(duplicates[0])} both contain ${duplicates[0].uniqueId}. SMAPI won't load either copy.`
+            : `${duplicates.length} SMAPI mods are included in more than one enabled mod. SMAPI won't load them.`,
+        actions: [
+            { title: 'Resolve', action: (dismiss) => { dismiss(); resolveDuplicates(api, profileId, duplicates); } }
+        ]
+    });
+}
+
+async function resolveDuplicates(api: types.IExtensionApi, profileId: string, duplicates: IDuplicateUniqueId[]) {
+    for (const duplicate of duplicates) {
+        const disableLabel = (mod: types.IMod): string => `Disable ${util.renderModName(mod)}`;
+        const result = await api.showDialog('question', 'Mods installed more than once', {
+            text: `${duplicate.uniqueId} is included in more than one of your enabled mods. SMAPI will refuse to load it until only one copy is enabled.\n\n`
+                + 'You can disable one of the copies, or add a rule so Vortex warns you whenever they\'re both enabled.',
+            message: duplicate.mods.map(m => `${util.renderModName(m)} (version ${manifestVersion(m, duplicate.uniqueId) || '?'})`).join('\n'),
+        }, [
+            { label: 'Ignore' },
+            { label: 'Add conflict rule' },
+            ...duplicate.mods.map(m => ({ label: disableLabel(m) }))
+        ]);
+
+        try {
+            if (result.action === 'Add conflict rule') {
+                const [first, ...others] = duplicate.mods;
+                util.batchDispatch(api.store, others.map(other => {
+                    const rule: IModRulePlusType = { type: 'conflicts', reference: { id: other.id } };
+                    return actions.addModRule(GAME_ID, first.id, rule);
+                }));
+                continue;
+            }
+
+            const toDisable = duplicate.mods.find(m => disableLabel(m) === result.action);
+            if (!toDisable) continue;
+            api.store.dispatch(actions.setModEnabled(profileId, toDisable.id, false));
+            api.store.dispatch(actions.setDeploymentNecessary(GAME_ID, true));
+        }
+        catch(err) {
+            log('error', 'Failed to resolve duplicate SMAPI mods', { uniqueId: duplicate.uniqueId, err });
+            api.showErrorNotification('Failed to resolve duplicate mods', err, { allowReport: false });
+        }
+    }
+}
@@ -2,6 +2,8 @@ import * as path from 'path';
 import { fs, selectors, types, util, log } from 'vortex-api';
 import { GAME_ID } from '../common';
 import { getBundledMods } from '../installers/smapi';
+import { getSMAPIAttributes } from '../smapi-attributes';
+import { trackDataFile } from './profileFiles';
 
 async function handleAddedFiles(api: types.IExtensionApi, profileId: string, files: { filePath: string, candidates: string[]}[]) {
     const state = api.getState();
@@ -27,6 +29,8 @@ async function handleAddedFiles(api: types.IExtensionApi, profileId: string, fil
         try {
             await fs.copyAsync(file.filePath, targetPath);
             await fs.removeAsync(file.filePath);
+            // Files created by SMAPI mods are usually settings or saved data, which are kept for each profile.
+            await trackDataFile(api, profileId, mod, relPath);
         } catch(err) {
             if (!err.message.includes('are the same file')) {
                 // should we be reporting this to the user? This is a completely
@@ -64,7 +68,7 @@ const isModCandidateValid = (mod: types.IMod, entry: { filePath: string, candida
     const modFolderName = ((modsSegIdx !== -1) && (segments.length > modsSegIdx + 1))
       ? segments[modsSegIdx + 1] : undefined;
 
-    let bundledMods = util.getSafe(mod, ['attributes', 'smapiBundledMods'], []);
+    let bundledMods = getSMAPIAttributes(mod).smapiBundledMods || [];
     bundledMods = bundledMods.length > 0 ? bundledMods : getBundledMods();
     if (segments.includes('content')) {
       // SMAPI is not supposed to overwrite the game's content directly.
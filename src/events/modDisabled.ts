@@ -0,0 +1,118 @@
+import { actions, selectors, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { buildModGraph, dependantClosure, getManifestDependencies, ISMAPIDependency } from '../dependency-graph';
+import { getManifests, getUniqueIds, hasManifests } from '../smapi-attributes';
+import { IModRulePlusType } from '../types/smapi-types';
+import { getEnabledMods } from '../validation';
+
+/**
+ * Warn the user if a mod that was disabled is required by other enabled mods.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {string} profileId - The profile the mod was disabled in.
+ * @param {string} modId - The mod that was disabled.
+ *
+ */
+export default function modDisabled(api: types.IExtensionApi, profileId: string, modId: string) {
+    const state = api.getState();
+    const profile: types.IProfile | undefined = selectors.profileById(state, profileId);
+    if (profile?.gameId !== GAME_ID) return;
+    const mod: types.IMod | undefined = state.persistent.mods?.[GAME_ID]?.[modId];
+    if (!hasManifests(mod)) return;
+    warnDependants(api, profileId, mod, false);
+}
+
+/**
+ * Before a mod is removed, warn about any enabled mods that require it and tidy up the rules that point at it.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {string} gameId - The game the mod is being removed from.
+ * @param {string} modId - The mod being removed.
+ *
+ */
+export function willRemoveMod(api: types.IExtensionApi, gameId: string, modId: string) {
+    if (gameId !== GAME_ID) return;
+    const mod: types.IMod | undefined = api.getState().persistent.mods?.[GAME_ID]?.[modId];
+    if (!mod) return;
+    removeStaleRules(api, mod);
+    if (hasManifests(mod)) warnDependants(api, selectors.lastActiveProfileForGame(api.getState(), GAME_ID), mod, true);
+}
+
+function warnDependants(api: types.IExtensionApi, profileId: string, mod: types.IMod, removed: boolean) {
+    // The mod may already have been disabled by the time we get here.
+    const mods = { ...getEnabledMods(api.getState(), profileId), [mod.id]: mod };
+    const dependants = [...dependantClosure(buildModGraph(mods), [mod.id])]
+        .filter(id => id !== mod.id)
+        .map(id => mods[id]);
+    if (!dependants.length) return;
+
+    const modName = util.renderModName(mod);
+    api.sendNotification({
+        id: `sdv-dependants-${mod.id}`,
+        type: 'warning',
+        title: dependants.length === 1
+            ? `A mod requires ${modName}`
+            : `${dependants.length} mods require ${modName}`,
+        message: `${dependants.map(m => util.renderModName(m)).join(', ')} won't load while ${modName} is ${removed ? 'removed' : 'disabled'}.`,
+        actions: [
+            {
+                title: dependants.length === 1 ? 'Disable it' : 'Disable them',
+                action: (dismiss) => {
+                    util.batchDispatch(api.store, dependants.map(m => actions.setModEnabled(profileId, m.id, false)));
+                    api.store.dispatch(actions.setDeploymentNecessary(GAME_ID, true));
+                    dismiss();
+                }
+            }
+        ]
+    });
+}
+
+// Rules which point directly at the removed mod are replaced with a rule for its UniqueID if the dependency is still needed.
+function removeStaleRules(api: types.IExtensionApi, removed: types.IMod) {
+    const mods: { [id: string]: types.IMod } = api.getState().persistent.mods?.[GAME_ID] || {};
+    const removedIds = getUniqueIds(removed).map(id => id.toLowerCase());
+    // The UniqueID of the removed mod a rule is for, rules added by the extension keep it in one of these fields.
+    const ruleUniqueId = (rule: IModRulePlusType): string | undefined =>
+        [rule.reference?.idHint, rule.reference?.fileExpression, rule.reference?.description]
+            .find(id => !!id && removedIds.includes(id.toLowerCase()))?.toLowerCase();
+    const updateActions = [];
+
+    for (const mod of Object.values(mods).filter(m => m.id !== removed.id)) {
+        const dependencies = Object.values(getManifests(mod))
+            .reduce((prev, cur) => prev.concat(getManifestDependencies(cur)), [] as ISMAPIDependency[])
+            .filter(d => removedIds.includes(d.UniqueID.toLowerCase()));
+        const rules = ((mod.rules || []) as IModRulePlusType[]).filter(r => ['requires', 'recommends'].includes(r.type));
+
+        // Rules for a UniqueID rather than a mod stay, but only one is needed for each UniqueID.
+        const covered = new Set<string>();
+        for (const rule of rules.filter(r => !r.reference?.id)) {
+            const uniqueId = ruleUniqueId(rule);
+            if (!uniqueId) continue;
+            if (covered.has(uniqueId)) updateActions.push(actions.removeModRule(GAME_ID, mod.id, rule));
+            else covered.add(uniqueId);
+        }
+
+        for (const rule of rules.filter(r => r.reference?.id === removed.id)) {
+            updateActions.push(actions.removeModRule(GAME_ID, mod.id, rule));
+            // Older rules may not say which UniqueID they were for, so keep all the dependencies on the removed mod.
+            const uniqueId = ruleUniqueId(rule);
+            const needed = dependencies.filter(d => (!uniqueId || d.UniqueID.toLowerCase() === uniqueId) && !covered.has(d.UniqueID.toLowerCase()));
+            for (const dependency of needed) {
+                covered.add(dependency.UniqueID.toLowerCase());
+                const replacement: IModRulePlusType = {
+                    type: rule.type,
+                    reference: {
+                        idHint: dependency.UniqueID,
+                        description: dependency.UniqueID,
+                        versionMatch: dependency.MinimumVersion ? `>=${dependency.MinimumVersion}` : '*',
+                    },
+                    ...(rule.downloadHint ? { downloadHint: rule.downloadHint } : {}),
+                    ...(rule.extra ? { extra: rule.extra } : {})
+                };
+                updateActions.push(actions.addModRule(GAME_ID, mod.id, replacement));
+            }
+        }
+    }
+
+    if (updateActions.length) util.batchDispatch(api.store, updateActions);
+}
@@ -1,8 +1,11 @@
 import { actions, selectors, types, log, util } from "vortex-api";
 import { GAME_ID } from '../common';
-import { IAPIModIdentity, IModRulePlusType, ISMAPIManifest, SMAPIManifestClass } from "../types/smapi-types";
+import { IAPIModIdentity, IModRulePlusType } from "../types/smapi-types";
+import { getManifestDependencies, ISMAPIDependency } from '../dependency-graph';
+import { findManifest, getManifests } from '../smapi-attributes';
 import SMAPI_API from '../SMAPI_API';
-import * as semver from 'semver';
+import { meetsMinimumVersion } from '../semantic-version';
+import { getMissingDependencies, IMissingDependencyInfo, notifyMissingDependencies } from '../actions/installDependency';
 
 export default async function modToggled(api: types.IExtensionApi, profileId: string, modId: string) {
     const state = api.getState();
@@ -15,36 +18,42 @@ export default async function modToggled(api: types.IExtensionApi, profileId: st
     if (!mods || !mod) return;
 
     // Get the SMAPI manifests
-    const smapiManifests: { [id: string]: ISMAPIManifest } = mod.attributes?.smapiManifests;
+    const smapiManifests = getManifests(mod);
 
-    // If we have got any saved manifests, we can't do anything here.
-    if (!smapiManifests || !Object.keys(smapiManifests).length) return;
+    // If we haven't got any saved manifests, we can't do anything here.
+    if (!Object.keys(smapiManifests).length) return;
+
+    const missing: IMissingDependencyInfo[] = [];
 
     // Loop over the manfiests provided and check the dependencies
     for (const manifest of Object.values(smapiManifests)) {
-        const parsed = new SMAPIManifestClass(manifest);
-        const dependencies = parsed.Dependencies || [];
-        // If this is a content pack, add the additional dependency. 
-        if (!!parsed.ContentPackFor) dependencies.push({ UniqueID: parsed.ContentPackFor.UniqueID, isRequired: true });
+        // Dependencies are required unless the manifest says otherwise, and content packs require the mod they're for.
+        const dependencies = getManifestDependencies(manifest);
         // Iterate over the dependencies and find matching mods.
         const mappedRules = await mapDependencies(api, mods, dependencies);
         if (!mappedRules.length) continue;
-        const existingRules = mod.rules || [];
-        const rulesToRemove = existingRules.filter(r => mappedRules.find(mr => mr.reference.id === (r.reference as any)?.fileExpression));
+        const existingRules = (mod.rules || []) as IModRulePlusType[];
+        // Rules may have been added when the mod was installed, either pointing at a mod or at a UniqueID.
+        const dependencyIds = dependencies.map(d => d.UniqueID?.toLowerCase());
+        const rulesToRemove = existingRules.filter(r => mappedRules.find(mr => !!mr.reference.id && mr.reference.id === r.reference?.id)
+            || [r.reference?.idHint, r.reference?.fileExpression].find(id => !!id && dependencyIds.includes(id.toLowerCase())));
         // Remove the rules we're updating.
         util.batchDispatch(api.store, rulesToRemove.map(r => actions.removeModRule(GAME_ID, mod.id, r)));
 
         // Apply the new rules
         util.batchDispatch(api.store, mappedRules.map(r => actions.addModRule(GAME_ID, mod.id, r)));
+        missing.push(...getMissingDependencies(mappedRules));
     }
 
+    // Offer to install anything that's missing.
+    notifyMissingDependencies(api, mod, missing);
 }
 
-async function mapDependencies(api: types.IExtensionApi, mods: {[id: string]: types.IMod}, dependencies: { UniqueID: string, isRequired?: boolean, MinimumVersion?: string }[] ): Promise<IModRulePlusType[]> {
+async function mapDependencies(api: types.IExtensionApi, mods: {[id: string]: types.IMod}, dependencies: ISMAPIDependency[]): Promise<IModRulePlusType[]> {
     // Get a singular list of dependencies, in case there are duplicates.
     const modArray = Object.values(mods);
     const depIds: Set<string> = new Set(dependencies.filter(d => !!d.UniqueID).map(d => d.UniqueID as string));
-    const filteredDependencies = [...depIds].reduce((prev: { UniqueID: string, isRequired?:boolean, MinimumVersion?: string }[], cur: string) => {
+    const filteredDependencies = [...depIds].reduce((prev: ISMAPIDependency[], cur: string) => {
         const match = dependencies.find(d => d.UniqueID === cur);
         if (match != undefined) prev.push(match);
         return prev;
@@ -53,27 +62,27 @@ async function mapDependencies(api: types.IExtensionApi, mods: {[id: string]: ty
     let smapiRules: IModRulePlusType[] = [];
 
     // Missing dependencies
-    const missingDependencies: { UniqueID: string, isRequired?: boolean, MinimumVersion?: string }[] = [];
+    const missingDependencies: ISMAPIDependency[] = [];
     
     // Iterate over all dependency IDs and try to map it to a mod.
     for (const depToFind of filteredDependencies) {
         const depName: string = depToFind.UniqueID || '';
-        const candidates = modArray.filter(m => m.attributes?.smapiManifests?.[depName]);
+        const candidates = modArray.filter(m => !!findManifest(m, depName));
         if (candidates.length) {
             // Found a possible match
             const match = candidates.find(mod => {
                 const version = depToFind.MinimumVersion;
                 if (!version) return true;
-                const modDepVersion = mod.attributes?.smapiManifests[depName].Version;
+                const modDepVersion = findManifest(mod, depName)?.Version;
                 if (!modDepVersion) return false;
-                return semver.satisfies(modDepVersion, `${semver.coerce(version)}^`);               
+                return meetsMinimumVersion(modDepVersion, version);
             });
 
             if (!!match) {
                 smapiRules.push({
-                    type: depToFind.isRequired === true ? 'requires' : 'recommends',
+                    type: depToFind.isRequired ? 'requires' : 'recommends',
                     reference: {
-                        versionMatch:  depToFind.MinimumVersion ? `${depToFind.MinimumVersion}^` : '*',
+                        versionMatch:  depToFind.MinimumVersion ? `>=${depToFind.MinimumVersion}` : '*',
                         description: depToFind.UniqueID,
                         id: match.id
                     }
@@ -96,7 +105,7 @@ async function mapDependencies(api: types.IExtensionApi, mods: {[id: string]: ty
             const smapiInfo = smapiData.find(s => s.id.toLowerCase() === mod.UniqueID.toLowerCase());
             if (!!smapiInfo) {
                 const depRule: IModRulePlusType = {
-                    type: mod.isRequired === true ? 'requires' : 'recommends',
+                    type: mod.isRequired ? 'requires' : 'recommends',
                     reference: {
                         idHint: smapiInfo.id,
                         description: smapiInfo.id,
@@ -107,7 +116,9 @@ async function mapDependencies(api: types.IExtensionApi, mods: {[id: string]: ty
                         url: smapiInfo.metadata?.main?.url || `https://nexusmods.com/${GAME_ID}/mods/`
                     },
                     extra: {
-                        required: mod.isRequired || false
+                        required: mod.isRequired,
+                        // Allows the mod to be downloaded directly from Nexus Mods.
+                        nexusId: smapiInfo.metadata?.nexusID
                     }
                 }
                 return depRule;
@@ -116,9 +127,9 @@ async function mapDependencies(api: types.IExtensionApi, mods: {[id: string]: ty
             else {
                 // Somehow we didn't get the info for this rule. 
                 return {
-                    type: mod.isRequired === true ? 'requires' : 'recommends',
+                    type: mod.isRequired ? 'requires' : 'recommends',
                     reference: {
-                        version: mod.MinimumVersion ? `${mod.MinimumVersion}^` : '*',
+                        version: mod.MinimumVersion ? `>=${mod.MinimumVersion}` : '*',
                         fileExpression: mod.UniqueID
                     }
                 }
@@ -131,9 +142,9 @@ async function mapDependencies(api: types.IExtensionApi, mods: {[id: string]: ty
     catch(err) {
         log("error", "Could not get dependency data from SMAPI", err);
         return missingDependencies.map( depToFind => ({
-            type: depToFind.isRequired === true ? 'requires' : 'recommends',
+            type: depToFind.isRequired ? 'requires' : 'recommends',
             reference: {
-                version: depToFind.MinimumVersion ? `${depToFind.MinimumVersion}^` : '*',
+                version: depToFind.MinimumVersion ? `>=${depToFind.MinimumVersion}` : '*',
                 fileExpression: depToFind.UniqueID
             }
         }));
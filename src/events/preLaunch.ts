@@ -0,0 +1,131 @@
+import { actions, log, selectors, types, util } from 'vortex-api';
+import { GAME_ID, isSMAPIExecutable } from '../common';
+import { getSMAPIVersion } from '../smapi-version';
+import {
+    findDuplicateUniqueIds, findMinimumApiProblems, findMissingDependencies, findMissingEntryDlls, getEnabledMods,
+    IDuplicateUniqueId, IMinimumApiProblem, IMissingDependency, IMissingEntryDll
+} from '../validation';
+
+interface ILaunchProblems {
+    undeployed: boolean;
+    missingDependencies: IMissingDependency[];
+    duplicates: IDuplicateUniqueId[];
+    minimumApi: IMinimumApiProblem[];
+    missingEntryDlls: IMissingEntryDll[];
+}
+
+/**
+ * Check the enabled mods for problems that will stop SMAPI loading them before the SMAPI tool is launched.
+ * If any are found the user can cancel, launch anyway or let Vortex disable the affected mods.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {types.IRunParameters} call - The tool being started.
+ * @returns {Promise<types.IRunParameters>} The unchanged call, or rejects with ProcessCanceled if the user cancels.
+ *
+ */
+export default async function validateLaunch(api: types.IExtensionApi, call: types.IRunParameters): Promise<types.IRunParameters> {
+    const state = api.getState();
+    if (selectors.activeGameId(state) !== GAME_ID || !isSMAPIExecutable(call.executable)) return call;
+
+    let problems: ILaunchProblems;
+    try {
+        problems = await findProblems(api);
+    }
+    catch(err) {
+        // Don't stop the user playing because the checks failed.
+        log('warn', 'Unable to validate SMAPI mods before launch', err);
+        return call;
+    }
+
+    const details = describeProblems(api, problems);
+    if (!details.length) return call;
+
+    const result = await api.showDialog('error', 'Problems found with your mods', {
+        text: 'Vortex found problems which will stop SMAPI loading some of your mods. '
+            + 'Choose "Fix" to deploy your mods and disable any mods which can\'t be loaded, then launch the game.',
+        message: details.join('\n\n'),
+    }, [
+        { label: 'Cancel' },
+        { label: 'Launch anyway' },
+        { label: 'Fix' }
+    ]);
+
+    if (result.action === 'Cancel') throw new util.ProcessCanceled('SMAPI launch cancelled due to problems with mods.');
+    if (result.action === 'Fix') await fixProblems(api, problems);
+    return call;
+}
+
+async function findProblems(api: types.IExtensionApi): Promise<ILaunchProblems> {
+    const state = api.getState();
+    const mods = getEnabledMods(state);
+    const smapiVersion = await getSMAPIVersion(api);
+    return {
+        undeployed: !!state.persistent.deployment?.needToDeploy?.[GAME_ID],
+        missingDependencies: findMissingDependencies(mods),
+        duplicates: findDuplicateUniqueIds(mods),
+        minimumApi: smapiVersion ? findMinimumApiProblems(mods, smapiVersion) : [],
+        missingEntryDlls: await findMissingEntryDlls(state, mods),
+    };
+}
+
+function describeProblems(api: types.IExtensionApi, problems: ILaunchProblems): string[] {
+    const details: string[] = [];
+    const list = (items: string[]): string => items.map(i => `  - ${i}`).join('\n');
+    const name = (mod: types.IMod): string => util.renderModName(mod);
+
+    if (problems.undeployed) details.push('Your mods have changed since they were last deployed.');
+    if (problems.missingDependencies.length) {
+        details.push(`Missing required mods:\n${list(problems.missingDependencies.map(p => `${name(p.mod)} requires ${p.uniqueId}`))}`);
+    }
+    if (problems.duplicates.length) {
+        details.push(`Mods installed more than once:\n${list(problems.duplicates.map(p => `${p.uniqueId} is in ${p.mods.map(name).join(', ')}`))}`);
+    }
+    if (problems.minimumApi.length) {
+        details.push(`Mods which need a newer version of SMAPI:\n${list(problems.minimumApi.map(p => `${name(p.mod)} needs SMAPI ${p.minimumApiVersion}`))}`);
+    }
+    if (problems.missingEntryDlls.length) {
+        details.push(`Mods with missing files:\n${list(problems.missingEntryDlls.map(p => `${name(p.mod)} is missing ${p.entryDll}`))}`);
+    }
+    return details;
+}
+
+const installTime = (mod: types.IMod): number => new Date(mod.attributes?.installTime || 0).getTime();
+
+async function fixProblems(api: types.IExtensionApi, problems: ILaunchProblems) {
+    const profileId: string = selectors.lastActiveProfileForGame(api.getState(), GAME_ID);
+    const toDisable = new Set<string>([
+        ...problems.missingDependencies.map(p => p.mod.id),
+        ...problems.minimumApi.map(p => p.mod.id),
+        ...problems.missingEntryDlls.map(p => p.mod.id),
+    ]);
+    // Keep the most recently installed copy of a duplicated mod.
+    for (const duplicate of problems.duplicates) {
+        const sorted = [...duplicate.mods].sort((a, b) => installTime(b) - installTime(a));
+        sorted.slice(1).forEach(m => toDisable.add(m.id));
+    }
+
+    if (toDisable.size) {
+        util.batchDispatch(api.store, [...toDisable].map(id => actions.setModEnabled(profileId, id, false)));
+        api.store.dispatch(actions.setDeploymentNecessary(GAME_ID, true));
+    }
+
+    if (toDisable.size || problems.undeployed) {
+        try {
+            await util.toPromise(cb => api.events.emit('deploy-mods', cb));
+        }
+        catch(err) {
+            log('error', 'Failed to deploy before launching SMAPI', err);
+            api.showErrorNotification('Failed to deploy mods', err, { allowReport: false });
+            throw new util.ProcessCanceled('SMAPI launch cancelled as deployment failed.');
+        }
+    }
+
+    if (toDisable.size) {
+        api.sendNotification({
+            type: 'info',
+            title: `${toDisable.size} mod(s) disabled`,
+            message: 'Mods which SMAPI would not be able to load have been disabled.',
+            displayMS: 5000
+        });
+    }
+}
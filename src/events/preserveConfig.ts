@@ -0,0 +1,167 @@
+import * as path from 'path';
+import { fs, log, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { getModFolders, IConfigMerge, mergeConfig, readConfig, safeFileName, writeConfig } from '../mod-config';
+import { findManifest, hasManifests } from '../smapi-attributes';
+import { storedConfigPaths } from './profileFiles';
+
+// Saved configs are kept in the Vortex data folder so they survive the mod being uninstalled.
+const SNAPSHOT_FOLDER = 'config-snapshots';
+
+interface IConfigSnapshot {
+    uniqueId: string;
+    /**The Vortex mod the config was saved from. */
+    modId: string;
+    saved: number;
+    config: object;
+}
+
+interface IRestoredConfig {
+    uniqueId: string;
+    added: string[];
+    removed: string[];
+}
+
+const snapshotPath = (uniqueId: string): string =>
+    path.join(util.getVortexPath('userData'), GAME_ID, SNAPSHOT_FOLDER, `${safeFileName(uniqueId)}.json`);
+
+/**
+ * Save the config files of a mod before it's reinstalled, updated or removed, so they can be restored into the new version.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {string} gameId - The game the mod belongs to.
+ * @param {string} modId - The mod about to be replaced or removed.
+ *
+ */
+export async function snapshotConfig(api: types.IExtensionApi, gameId: string, modId: string) {
+    if (gameId !== GAME_ID) return;
+    const state = api.getState();
+    const mod: types.IMod | undefined = state.persistent.mods?.[GAME_ID]?.[modId];
+    if (!hasManifests(mod)) return;
+
+    for (const folder of await getModFolders(state, mod)) {
+        const config = await readConfig(folder.configPath);
+        if (!config) continue;
+        const snapshot: IConfigSnapshot = { uniqueId: folder.uniqueId, modId, saved: Date.now(), config };
+        try {
+            await fs.ensureDirAsync(path.dirname(snapshotPath(folder.uniqueId)));
+            await fs.writeFileAsync(snapshotPath(folder.uniqueId), JSON.stringify(snapshot), { encoding: 'utf8' });
+        }
+        catch(err) {
+            log('warn', 'Unable to save mod config', { uniqueId: folder.uniqueId, error: err.message });
+        }
+    }
+}
+
+/**
+ * Restore the config files saved from a previous version of a mod once the new version is installed.
+ * The copies kept for each profile are merged into the new version too.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {string} gameId - The game the mod belongs to.
+ * @param {string} modId - The mod which was just installed.
+ *
+ */
+export default async function restoreConfig(api: types.IExtensionApi, gameId: string, modId: string) {
+    if (gameId !== GAME_ID) return;
+    const state = api.getState();
+    const mods: { [id: string]: types.IMod } = state.persistent.mods?.[GAME_ID] || {};
+    const mod: types.IMod | undefined = mods[modId];
+    if (!hasManifests(mod)) return;
+
+    const restored: IRestoredConfig[] = [];
+    for (const folder of await getModFolders(state, mod)) {
+        // If the old version is still installed its config is the most recent, otherwise use the one saved when it was removed.
+        const saved = await configFromInstalledMod(state, Object.values(mods).filter(m => m.id !== modId), folder.uniqueId)
+            ?? (await readSnapshot(folder.uniqueId))?.config;
+        const current = await readConfig(folder.configPath);
+        // Otherwise switching profile would put back a config written for the previous version.
+        const merges = current ? await mergeStoredConfigs(state, folder.uniqueId, current) : [];
+
+        if (saved) {
+            const result = current ? mergeConfig(saved, current) : { merged: saved, added: [], removed: [] };
+            try {
+                await writeConfig(folder.configPath, result.merged);
+                merges.push(result);
+            }
+            catch(err) {
+                log('error', 'Unable to restore mod config', { uniqueId: folder.uniqueId, error: err.message });
+            }
+        }
+
+        if (merges.length) restored.push({
+            uniqueId: folder.uniqueId,
+            added: unique(merges.reduce((prev, m) => prev.concat(m.added), [])),
+            removed: unique(merges.reduce((prev, m) => prev.concat(m.removed), [])),
+        });
+    }
+
+    if (restored.length) notifyRestored(api, mod, restored);
+}
+
+async function mergeStoredConfigs(state: types.IState, uniqueId: string, current: object): Promise<IConfigMerge[]> {
+    const merges: IConfigMerge[] = [];
+    for (const configPath of storedConfigPaths(state, uniqueId)) {
+        const stored = await readConfig(configPath);
+        if (!stored) continue;
+        const result = mergeConfig(stored, current);
+        try {
+            await writeConfig(configPath, result.merged);
+            merges.push(result);
+        }
+        catch(err) {
+            log('error', 'Unable to update the mod config saved for a profile', { uniqueId, configPath, error: err.message });
+        }
+    }
+    return merges;
+}
+
+const unique = (keys: string[]): string[] => keys.filter((key, idx) => keys.indexOf(key) === idx);
+
+async function configFromInstalledMod(state: types.IState, mods: types.IMod[], uniqueId: string): Promise<object | undefined> {
+    for (const mod of mods.filter(m => !!findManifest(m, uniqueId))) {
+        const folder = (await getModFolders(state, mod)).find(f => f.uniqueId.toLowerCase() === uniqueId.toLowerCase());
+        const config = folder ? await readConfig(folder.configPath) : undefined;
+        if (config) return config;
+    }
+    return undefined;
+}
+
+async function readSnapshot(uniqueId: string): Promise<IConfigSnapshot | undefined> {
+    try {
+        const data: string = await fs.readFileAsync(snapshotPath(uniqueId), { encoding: 'utf8' });
+        return JSON.parse(data);
+    }
+    catch(err) {
+        if (err.code !== 'ENOENT') log('warn', 'Unable to read saved mod config', { uniqueId, error: err.message });
+        return undefined;
+    }
+}
+
+function notifyRestored(api: types.IExtensionApi, mod: types.IMod, restored: IRestoredConfig[]) {
+    const changed = restored.filter(r => r.added.length || r.removed.length);
+    const modName = util.renderModName(mod);
+    api.sendNotification({
+        id: `sdv-config-restored-${mod.id}`,
+        type: changed.length ? 'warning' : 'success',
+        title: `Kept your settings for ${modName}`,
+        message: changed.length ? 'Some settings were added or removed in this version.' : undefined,
+        displayMS: changed.length ? undefined : 5000,
+        actions: changed.length ? [
+            {
+                title: 'More',
+                action: (dismiss) => {
+                    api.showDialog('info', 'Mod settings changed', {
+                        text: `Your settings from the previous version of ${modName} have been restored. The new version changed these settings:`,
+                        message: changed.map(r => [
+                            r.uniqueId,
+                            ...(r.added.length ? [`  New (using the default value): ${r.added.join(', ')}`] : []),
+                            ...(r.removed.length ? [`  Removed: ${r.removed.join(', ')}`] : []),
+                        ].join('\n')).join('\n\n'),
+                    }, [ { label: 'Close' } ]);
+                    dismiss();
+                }
+            }
+        ] : []
+    });
+}
@@ -0,0 +1,175 @@
+import * as path from 'path';
+import { actions, fs, log, selectors, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { CONFIG_FILE, findModFolders, getModFolders, safeFileName } from '../mod-config';
+import { getSMAPIAttributes, hasManifests } from '../smapi-attributes';
+import { setConfigProfile } from '../state/actions';
+import applySubMods, { heldFolder } from './subMods';
+
+// Stored in the Vortex profile folder, so they're removed along with the profile.
+const PROFILE_FILES_FOLDER = 'mod-configs';
+
+// Swaps must not overlap, or files from one profile could end up in another.
+let swapping: Promise<void> = Promise.resolve();
+
+interface IProfileFile {
+    uniqueId: string;
+    /**The path relative to the folder containing the manifest. */
+    relPath: string;
+    /**The full path in the staging folder, or the folder for disabled SMAPI mods. */
+    stagingPath: string;
+}
+
+const profileFilesFolder = (profileId: string): string =>
+    path.join(util.getVortexPath('userData'), GAME_ID, 'profiles', profileId, PROFILE_FILES_FOLDER);
+
+const storedPath = (profileId: string, uniqueId: string, relPath: string): string =>
+    path.join(profileFilesFolder(profileId), safeFileName(uniqueId), relPath);
+
+/**
+ * Get the config.json saved for each profile of a SMAPI mod, so they can be updated along with the one in the staging folder.
+ *
+ * @param {types.IState} state - The Vortex state.
+ * @param {string} uniqueId - The UniqueID of the SMAPI mod.
+ * @returns {string[]} The full path for each profile, which may not exist.
+ *
+ */
+export function storedConfigPaths(state: types.IState, uniqueId: string): string[] {
+    const profiles: { [id: string]: types.IProfile } = state.persistent.profiles || {};
+    return Object.values(profiles)
+        .filter(profile => profile.gameId === GAME_ID)
+        .map(profile => storedPath(profile.id, uniqueId, CONFIG_FILE));
+}
+
+/**
+ * Remember a file created by a SMAPI mod, so it's kept separately for each profile along with the config.json.
+ * If the staging folder already holds another profile's files, the new file is saved for the profile which created it instead.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {string} profileId - The profile which was deployed when the file was created.
+ * @param {types.IMod} mod - The mod the file was added to.
+ * @param {string} relPath - The path of the file, relative to the mod's staging folder.
+ *
+ */
+export function trackDataFile(api: types.IExtensionApi, profileId: string, mod: types.IMod, relPath: string): Promise<void> {
+    if (!hasManifests(mod)) return Promise.resolve();
+    swapping = swapping
+        .then(() => track(api, profileId, mod, relPath))
+        .catch(err => log('error', 'Failed to keep a file created by a SMAPI mod for its profile', { profileId, modId: mod.id, relPath, error: err.message }));
+    return swapping;
+}
+
+/**
+ * Put the config and data files for a profile into the staging folder, saving the ones from the previous profile first.
+ * Files the profile hasn't saved yet are removed, so the mods create them again with their default settings. The SMAPI mods
+ * turned off in the profile are moved out of the staging folder first, so both happen in the same order when deploying and
+ * when switching profile.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {string} profileId - The profile being deployed or switched to.
+ *
+ */
+export default function swapProfileFiles(api: types.IExtensionApi, profileId: string): Promise<void> {
+    swapping = swapping
+        .then(() => applySubMods(api, profileId))
+        .then(() => swap(api, profileId))
+        .catch(err => {
+            log('error', 'Failed to swap mod config files for profile', { profileId, error: err.message });
+            api.showErrorNotification('Unable to apply the mod settings for this profile', err, { allowReport: false });
+        });
+    return swapping;
+}
+
+async function swap(api: types.IExtensionApi, profileId: string) {
+    const state = api.getState();
+    const profile: types.IProfile | undefined = selectors.profileById(state, profileId);
+    if (profile?.gameId !== GAME_ID) return;
+    const current: string | undefined = state.persistent['stardewvalley']?.configProfile;
+    if (current === profileId) return;
+
+    const files = await getProfileFiles(state);
+    // The previous profile may have been removed since.
+    if (!!current && !!selectors.profileById(state, current)) {
+        await Promise.all(files.map(file => copyIfExists(file.stagingPath, storedPath(current, file.uniqueId, file.relPath))));
+    }
+    // The first time a profile is used, it keeps the files which are already there rather than losing them.
+    if (!!current) await Promise.all(files.map(file => restoreFile(storedPath(profileId, file.uniqueId, file.relPath), file.stagingPath)));
+
+    log('info', 'Swapped mod config files for profile', { from: current, to: profileId, files: files.length });
+    api.store.dispatch(setConfigProfile(profileId));
+}
+
+async function track(api: types.IExtensionApi, profileId: string, mod: types.IMod, relPath: string) {
+    const state = api.getState();
+    const existing = getSMAPIAttributes(state.persistent.mods?.[GAME_ID]?.[mod.id]).smapiDataFiles || [];
+    if (!existing.find(file => file.toLowerCase() === relPath.toLowerCase())) {
+        api.store.dispatch(actions.setModAttribute(GAME_ID, mod.id, 'smapiDataFiles', [...existing, relPath]));
+    }
+
+    // The game may still be writing files after the profile has changed, and those belong to the profile which was running.
+    const current: string | undefined = state.persistent['stardewvalley']?.configProfile;
+    if (!current || current === profileId) return;
+    const stagingPath = path.join(selectors.installPathForGame(state, GAME_ID), mod.installationPath, relPath);
+    const file = (await getProfileFiles(api.getState())).find(f => f.stagingPath.toLowerCase() === stagingPath.toLowerCase());
+    if (!file) return;
+    await fs.ensureDirAsync(path.dirname(storedPath(profileId, file.uniqueId, file.relPath)));
+    await fs.copyAsync(file.stagingPath, storedPath(profileId, file.uniqueId, file.relPath));
+    await restoreFile(storedPath(current, file.uniqueId, file.relPath), file.stagingPath);
+    log('debug', 'Saved a file created by a SMAPI mod for its profile', { profileId, uniqueId: file.uniqueId, relPath: file.relPath });
+}
+
+async function getProfileFiles(state: types.IState): Promise<IProfileFile[]> {
+    const stagingFolder: string = selectors.installPathForGame(state, GAME_ID);
+    const mods: { [id: string]: types.IMod } = state.persistent.mods?.[GAME_ID] || {};
+    const result: IProfileFile[] = [];
+    // SMAPI has its own settings, which are handled separately.
+    for (const mod of Object.values(mods).filter(m => m.type !== 'SMAPI' && hasManifests(m))) {
+        const dataFiles = getSMAPIAttributes(mod).smapiDataFiles || [];
+        // Disabled SMAPI mods keep their files too, so they're right for the profile when turned on again.
+        const locations = [
+            { root: path.join(stagingFolder, mod.installationPath), folders: await getModFolders(state, mod) },
+            { root: heldFolder(mod.id), folders: await findModFolders(heldFolder(mod.id), mod.id) },
+        ];
+        for (const { root, folders } of locations) {
+            for (const folder of folders) {
+                const inFolder = dataFiles
+                    .map(file => path.join(root, file))
+                    .filter(file => file.toLowerCase().startsWith(folder.folder.toLowerCase() + path.sep));
+                for (const stagingPath of [folder.configPath, ...inFolder]) {
+                    const relPath = path.relative(folder.folder, stagingPath);
+                    if (!result.find(f => f.stagingPath.toLowerCase() === stagingPath.toLowerCase())) result.push({ uniqueId: folder.uniqueId, relPath, stagingPath });
+                }
+            }
+        }
+    }
+    return result;
+}
+
+async function restoreFile(storedFile: string, stagingPath: string) {
+    try {
+        await fs.statAsync(storedFile);
+    }
+    catch(err) {
+        // The profile doesn't have its own copy, so it shouldn't use the one left by the previous profile.
+        await fs.removeAsync(stagingPath)
+            .catch(err => { if (err.code !== 'ENOENT') log('warn', 'Unable to remove mod config file', { stagingPath, error: err.message }); });
+        return;
+    }
+    await copyIfExists(storedFile, stagingPath);
+}
+
+async function copyIfExists(source: string, destination: string) {
+    try {
+        await fs.statAsync(source);
+    }
+    catch(err) {
+        return;
+    }
+    try {
+        await fs.ensureDirAsync(path.dirname(destination));
+        await fs.copyAsync(source, destination);
+    }
+    catch(err) {
+        log('warn', 'Unable to copy mod config file', { source, destination, error: err.message });
+    }
+}
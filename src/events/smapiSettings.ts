@@ -0,0 +1,33 @@
+import { log, selectors, types } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { userConfigPath, writeUserConfig } from '../smapi-settings';
+import { ISMAPISettings } from '../types/state-types';
+
+/**
+ * Write the SMAPI settings for a profile into the staged SMAPI mod before it's deployed.
+ * Profiles which haven't changed any settings use the SMAPI defaults, so nothing carries over from the previous profile.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {string} profileId - The profile being deployed.
+ *
+ */
+export default async function applySMAPISettings(api: types.IExtensionApi, profileId: string) {
+    const state = api.getState();
+    const profile: types.IProfile | undefined = selectors.profileById(state, profileId);
+    if (profile?.gameId !== GAME_ID) return;
+    const settings: ISMAPISettings = state.persistent['stardewvalley']?.smapiSettings?.[profileId] || {};
+
+    const mods: { [id: string]: types.IMod } = state.persistent.mods?.[GAME_ID] || {};
+    const smapiMod = Object.values(mods).find(m => m.type === 'SMAPI' && profile.modState?.[m.id]?.enabled);
+    const configPath = userConfigPath(state, smapiMod);
+    if (!configPath) return;
+
+    try {
+        await writeUserConfig(configPath, settings);
+        log('debug', 'Applied SMAPI settings for profile', { profileId, settings: Object.keys(settings) });
+    }
+    catch(err) {
+        log('error', 'Unable to write SMAPI user config', { configPath, error: err.message });
+        api.showErrorNotification('Unable to apply your SMAPI settings', err, { allowReport: false });
+    }
+}
@@ -0,0 +1,113 @@
+import * as path from 'path';
+import { actions, fs, log, selectors, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { findModFolders, IModFolder } from '../mod-config';
+import { setDisabledSubMods } from '../state/actions';
+import { isSubModEnabled } from '../sub-mods';
+
+// Disabled SMAPI mods are moved out of the staging folder so they aren't deployed. Keeping them outside
+// the staging folder stops Vortex treating them as mods of their own.
+const SUB_MODS_FOLDER = 'disabled-sub-mods';
+
+// Moves must not overlap, or a folder could be moved while it's being moved back.
+let moving: Promise<void> = Promise.resolve();
+
+/**
+ * Get the folder the disabled SMAPI mods of a Vortex mod are moved to. It has the same layout as the mod's staging folder.
+ *
+ * @param {string} modId - The Vortex mod.
+ * @returns {string} The full path, which may not exist.
+ *
+ */
+export function heldFolder(modId: string): string {
+    return path.join(util.getVortexPath('userData'), GAME_ID, SUB_MODS_FOLDER, modId);
+}
+
+/**
+ * Move the SMAPI mods turned off in a profile out of the staging folder before deploying, and move back the ones turned on again.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {string} profileId - The profile being deployed.
+ *
+ */
+export default function applySubMods(api: types.IExtensionApi, profileId: string): Promise<void> {
+    moving = moving
+        .then(() => apply(api, profileId))
+        .catch(err => log('error', 'Failed to apply disabled SMAPI mods for profile', { profileId, error: err.message }));
+    return moving;
+}
+
+/**
+ * Move all the SMAPI mods of a Vortex mod back into the staging folder, so they're included when it's reinstalled or removed.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @param {string} gameId - The game the mod belongs to.
+ * @param {string} modId - The Vortex mod.
+ * @param {boolean} forget - Also forget which SMAPI mods were turned off, used when the mod is removed.
+ *
+ */
+export function restoreSubMods(api: types.IExtensionApi, gameId: string, modId: string, forget: boolean): Promise<void> {
+    if (gameId !== GAME_ID) return Promise.resolve();
+    moving = moving
+        .then(async () => {
+            const state = api.getState();
+            const mod: types.IMod | undefined = state.persistent.mods?.[GAME_ID]?.[modId];
+            if (mod) await moveFolders(await findModFolders(heldFolder(modId), modId), heldFolder(modId), stagingFolder(state, mod));
+            if (!forget) return;
+            // Leave anything which couldn't be moved back, so it isn't lost.
+            if (!(await findModFolders(heldFolder(modId), modId)).length) await fs.removeAsync(heldFolder(modId)).catch(() => undefined);
+            const profiles: { [id: string]: types.IProfile } = state.persistent.profiles || {};
+            const updates = Object.keys(profiles)
+                .filter(profileId => !!state.persistent['stardewvalley']?.disabledSubMods?.[profileId]?.[modId])
+                .map(profileId => setDisabledSubMods(profileId, modId, undefined));
+            if (updates.length) util.batchDispatch(api.store, updates);
+        })
+        .catch(err => log('error', 'Failed to restore disabled SMAPI mods', { modId, error: err.message }));
+    return moving;
+}
+
+async function apply(api: types.IExtensionApi, profileId: string) {
+    const state = api.getState();
+    const profile: types.IProfile | undefined = selectors.profileById(state, profileId);
+    if (profile?.gameId !== GAME_ID) return;
+    const mods: { [id: string]: types.IMod } = state.persistent.mods?.[GAME_ID] || {};
+
+    // Only the mods with something turned off in this profile, or with folders moved out for another profile, need checking.
+    const held: string[] = await fs.readdirAsync(path.join(util.getVortexPath('userData'), GAME_ID, SUB_MODS_FOLDER)).catch(() => []);
+    const modIds = new Set([...Object.keys(state.persistent['stardewvalley']?.disabledSubMods?.[profileId] || {}), ...held]);
+
+    for (const modId of modIds) {
+        const mod = mods[modId];
+        if (!mod?.installationPath) continue;
+        const isEnabled = (folder: IModFolder) => isSubModEnabled(state, profileId, modId, folder.uniqueId);
+        const staged = await findModFolders(stagingFolder(state, mod), modId);
+        await moveFolders(staged.filter(f => !isEnabled(f)), stagingFolder(state, mod), heldFolder(modId));
+        const returning = await findModFolders(heldFolder(modId), modId);
+        await moveFolders(returning.filter(isEnabled), heldFolder(modId), stagingFolder(state, mod));
+    }
+    log('debug', 'Applied disabled SMAPI mods for profile', { profileId, mods: modIds.size });
+}
+
+const stagingFolder = (state: types.IState, mod: types.IMod): string =>
+    path.join(selectors.installPathForGame(state, GAME_ID), mod.installationPath);
+
+async function moveFolders(folders: IModFolder[], from: string, to: string) {
+    for (const folder of folders) {
+        const destination = path.join(to, path.relative(from, folder.folder));
+        try {
+            // A folder inside another SMAPI mod may already have been moved along with it.
+            await fs.statAsync(folder.folder);
+        }
+        catch(err) {
+            continue;
+        }
+        try {
+            await fs.ensureDirAsync(path.dirname(destination));
+            await fs.moveAsync(folder.folder, destination, { overwrite: true });
+            log('debug', 'Moved SMAPI mod folder', { uniqueId: folder.uniqueId, from: folder.folder, to: destination });
+        }
+        catch(err) {
+            log('warn', 'Unable to move SMAPI mod folder', { uniqueId: folder.uniqueId, from: folder.folder, to: destination, error: err.message });
+        }
+    }
+}
@@ -0,0 +1,11 @@
+import { types } from 'vortex-api';
+import { isSMAPIExecutable } from '../common';
+import SMAPILogWatcher from '../smapi-log/watcher';
+
+export default async function toolsRunningChanged(watcher: SMAPILogWatcher, running: { [exeId: string]: types.IRunningTool }) {
+    // Running tools are keyed by their executable.
+    const smapiRunning = Object.keys(running || {}).some(isSMAPIExecutable);
+    // Follow the log while SMAPI is running, and stop once the game exits.
+    if (smapiRunning && !watcher.isRunning) watcher.start();
+    else if (!smapiRunning && watcher.isRunning) await watcher.stop();
+}
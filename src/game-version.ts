@@ -0,0 +1,105 @@
+import * as path from 'path';
+import { fs, log } from 'vortex-api';
+import { parseSMAPILog } from './smapi-log/parser';
+import { readLogFile, SMAPI_LOG_LATEST } from './smapi-log/files';
+import { ISMAPILog } from './types/log-types';
+
+const GAME_DLL = 'Stardew Valley.dll';
+const GAME_DEPS = 'Stardew Valley.deps.json';
+// Before 1.5.5 the game was a .NET Framework executable on Windows.
+const GAME_EXE = 'Stardew Valley.exe';
+// The VS_FIXEDFILEINFO signature (0xFEEF04BD) as it appears in the file.
+const VERSION_INFO_SIGNATURE = Buffer.from([0xBD, 0x04, 0xEF, 0xFE]);
+
+// Reading the DLL is slow, so results are kept until the file changes.
+const versionCache: { [key: string]: string } = {};
+
+/**
+ * Read the game version from the "Stardew Valley/x.x.x" library entry in the deps.json file.
+ *
+ * @param {string} gamePath - The game folder.
+ * @returns {Promise<string | undefined>} The version, if found.
+ *
+ */
+async function versionFromDeps(gamePath: string): Promise<string | undefined> {
+    const depsData: string = await fs.readFileAsync(path.join(gamePath, GAME_DEPS), { encoding: 'utf8' });
+    const deps = JSON.parse(depsData.replace(/^\uFEFF/, ''));
+    const libraries: string[] = Object.keys(deps?.libraries || {});
+    for (const target of Object.values<object>(deps?.targets || {})) libraries.push(...Object.keys(target || {}));
+    const entry = libraries.find(l => l.toLowerCase().startsWith('stardew valley/'));
+    return entry?.split('/')[1];
+}
+
+/**
+ * Read the file version from the version resource of a Windows assembly. This works on any platform as the file is only read, not loaded.
+ *
+ * @param {string} filePath - The DLL or EXE to read.
+ * @returns {Promise<string | undefined>} The version as x.x.x.x, if found.
+ *
+ */
+async function versionFromAssembly(filePath: string): Promise<string | undefined> {
+    const data: Buffer = await fs.readFileAsync(filePath);
+    const offset = data.lastIndexOf(VERSION_INFO_SIGNATURE);
+    // The signature is followed by the struct version, then the file version as two DWORDs.
+    if (offset === -1 || offset + 16 > data.length) return undefined;
+    const versionMS = data.readUInt32LE(offset + 8);
+    const versionLS = data.readUInt32LE(offset + 12);
+    const parts = [versionMS >>> 16, versionMS & 0xFFFF, versionLS >>> 16, versionLS & 0xFFFF];
+    if (parts.every(p => p === 0)) return undefined;
+    return parts.join('.');
+}
+
+/**
+ * Read the latest SMAPI log, if it was written by the copy of the game at this path.
+ *
+ * @param {string} gamePath - The game folder.
+ * @returns {Promise<ISMAPILog | undefined>} The parsed log, if found.
+ *
+ */
+async function readGameSMAPILog(gamePath: string): Promise<ISMAPILog | undefined> {
+    const logData = await readLogFile(SMAPI_LOG_LATEST);
+    const smapiLog = parseSMAPILog(logData);
+    if (!smapiLog.isValid) return undefined;
+    const modsPath = path.normalize(smapiLog.modsPath || '').toLowerCase();
+    if (!modsPath.startsWith(path.normalize(gamePath).toLowerCase())) return undefined;
+    return smapiLog;
+}
+
+async function cachedVersion(filePath: string, read: () => Promise<string | undefined>): Promise<string | undefined> {
+    const stats: fs.Stats = await fs.statAsync(filePath);
+    const key = `${filePath}|${stats.mtime.getTime()}|${stats.size}`;
+    if (versionCache[key] === undefined) versionCache[key] = await read() || '';
+    return versionCache[key] || undefined;
+}
+
+/**
+ * Get the installed version of Stardew Valley. The deps.json and the game assembly are checked first,
+ * falling back to the legacy executable and finally the version SMAPI reported in its last log.
+ *
+ * @param {string} gamePath - The game folder.
+ * @returns {Promise<string | undefined>} The game version, or undefined if it could not be detected.
+ *
+ */
+async function getGameVersion(gamePath: string): Promise<string | undefined> {
+    const sources: { name: string, read: () => Promise<string | undefined> }[] = [
+        { name: GAME_DEPS, read: () => cachedVersion(path.join(gamePath, GAME_DEPS), () => versionFromDeps(gamePath)) },
+        { name: GAME_DLL, read: () => cachedVersion(path.join(gamePath, GAME_DLL), () => versionFromAssembly(path.join(gamePath, GAME_DLL))) },
+        { name: GAME_EXE, read: () => cachedVersion(path.join(gamePath, GAME_EXE), () => versionFromAssembly(path.join(gamePath, GAME_EXE))) },
+        { name: SMAPI_LOG_LATEST, read: async () => (await readGameSMAPILog(gamePath))?.gameVersion },
+    ];
+
+    for (const source of sources) {
+        try {
+            const version = await source.read();
+            if (version) return version;
+        }
+        catch(err) {
+            if (err.code !== 'ENOENT') log('debug', 'Unable to read Stardew Valley version', { source: source.name, error: err.message });
+        }
+    }
+
+    log('warn', 'Could not detect the installed version of Stardew Valley', { gamePath });
+    return undefined;
+}
+
+export { getGameVersion, versionFromAssembly, cachedVersion, readGameSMAPILog };
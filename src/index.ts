@@ -1,15 +1,36 @@
-import { log, selectors } from "vortex-api";
+import { log, selectors, types } from "vortex-api";
 import { IExtensionContext } from 'vortex-api/lib/types/api';
 import { GAME_ID } from "./common";
 import { testSMAPI, installSMAPI, isSMAPIModType } from './installers/smapi';
 import { testSupported, install } from './installers/smapi-mods';
 import { testRootFolder, installRootFolder, isRootFolderMod } from './installers/root-folder';
-import onShowSMAPILog from './actions/showSMAPILog';
+import onShowSMAPILog, { SMAPI_LOG_DIALOG } from './actions/showSMAPILog';
+import onFindBrokenMod, { resumeFindBrokenMod } from './actions/findBrokenMod';
 import handleAddedFiles from './events/handleAddedFiles';
 import modToggled from './events/modToggled';
+import toolsRunningChanged from './events/toolsRunning';
+import validateLaunch from './events/preLaunch';
+import checkModsVersion from './events/checkModsVersion';
+import checkSMAPIVersion from './events/checkSMAPIVersion';
+import checkDuplicateIds from './events/duplicateIds';
+import modDisabled, { willRemoveMod } from './events/modDisabled';
+import restoreConfig, { snapshotConfig } from './events/preserveConfig';
+import swapProfileFiles from './events/profileFiles';
+import applySMAPISettings from './events/smapiSettings';
+import { restoreSubMods } from './events/subMods';
+import SMAPILogWatcher from './smapi-log/watcher';
+import { migrateSMAPIAttributes } from './smapi-attributes';
 import StardewValley from './StardewValley';
+import SMAPILogViewer from './views/SMAPILogViewer';
+import LoadOrderPage from './views/LoadOrderPage';
+import SMAPISettings from './views/SMAPISettings';
+import { manifestProblemsAttribute, modConfigAttribute, smapiCompatibilityAttribute, smapiUpdateAttribute, subModsAttribute } from './views/tableAttributes';
+import { persistentReducer } from './state/reducers';
 
 function main(context: IExtensionContext) {
+    // Register our state first, so it's available to everything else.
+    context.registerReducer(['persistent', 'stardewvalley'], persistentReducer);
+
     // Register the game so it can be discovered.
     context.registerGame(new StardewValley(context));
 
@@ -41,6 +62,9 @@ function main(context: IExtensionContext) {
     context.registerInstaller('sdvrootfolder', 50, testRootFolder, installRootFolder);
     context.registerModType('sdvrootfolder', 25, (gameId) => (gameId === GAME_ID), () => getDiscoveryPath(), isRootFolderMod);
 
+    // The log viewer dialog, opened from the mods toolbar.
+    context.registerDialog(SMAPI_LOG_DIALOG, SMAPILogViewer, () => ({ api: context.api }));
+
     // Add a button to the mods toolbar which allows the user to view and export a SMAPI log file. 
     context.registerAction(
         'mod-icons', 999, 'changelog', {}, 
@@ -49,10 +73,84 @@ function main(context: IExtensionContext) {
         () => selectors.activeGameId(context.api.getState()) === GAME_ID
     );
 
+    // Add a button to the mods toolbar to guide the user through disabling mods until they find the broken one.
+    context.registerAction(
+        'mod-icons', 999, 'search', {},
+        // @ts-ignore the function here doesn't allow a promise by type but it works just fine. 
+        'Find Broken Mod', () => onFindBrokenMod(context.api), 
+        () => selectors.activeGameId(context.api.getState()) === GAME_ID
+    );
+
+    // A page showing the order SMAPI will load mods in, with any dependency problems.
+    context.registerMainPage('sort-none', 'SMAPI Load Order', LoadOrderPage, {
+        id: 'sdv-smapi-load-order',
+        group: 'per-game',
+        visible: () => selectors.activeGameId(context.api.getState()) === GAME_ID,
+        props: () => ({ api: context.api }),
+    });
+
+    // Edit SMAPI's own settings for each profile.
+    context.registerSettings('SMAPI', SMAPISettings, () => ({ api: context.api }), () => selectors.activeGameId(context.api.getState()) === GAME_ID);
+
+    // Show updates and compatibility data from the SMAPI API in the mods table.
+    context.registerTableAttribute('mods', smapiUpdateAttribute(() => selectors.activeGameId(context.api.getState())));
+    context.registerTableAttribute('mods', smapiCompatibilityAttribute(() => selectors.activeGameId(context.api.getState())));
+    // Keep any problems found in the manifests at install time visible.
+    context.registerTableAttribute('mods', manifestProblemsAttribute(() => selectors.activeGameId(context.api.getState())));
+    // Edit the config.json of a mod from its details.
+    context.registerTableAttribute('mods', modConfigAttribute(context.api));
+    // Turn off individual SMAPI mods in archives which include several.
+    context.registerTableAttribute('mods', subModsAttribute(context.api));
+
+    // Check for problems with the enabled mods before SMAPI starts.
+    context.registerStartHook(50, 'sdv-validate-smapi-launch', (call) => validateLaunch(context.api, call));
+
     context.once(() => {
+        resumeFindBrokenMod(context.api);
+        const logWatcher = new SMAPILogWatcher(context.api);
+        context.api.onStateChange(['session', 'base', 'toolsRunning'], (prev, current) => toolsRunningChanged(logWatcher, current)
+            .catch(err => log('error', 'Failed to follow the SMAPI log', { error: err.message })));
         context.api.onAsync('added-files', (profileId, files) => handleAddedFiles(context.api, profileId, files));
+        context.api.onAsync('check-mods-version', async (gameId: string, mods: { [id: string]: types.IMod }) => {
+            await checkModsVersion(context.api, gameId, mods);
+            if (gameId === GAME_ID) await checkSMAPIVersion(context.api, true);
+        });
+        // Rebuild the SMAPI data for mods installed by older versions of the extension, then check the installed SMAPI version is new enough for the enabled mods.
+        context.api.events.on('gamemode-activated', async (gameId: string) => {
+            if (gameId !== GAME_ID) return;
+            await migrateSMAPIAttributes(context.api);
+            checkSMAPIVersion(context.api, false)
+                .catch(err => log('error', 'Failed to check the installed SMAPI version', { error: err.message }));
+        });
+        context.api.onAsync('did-deploy', async (profileId: string) => {
+            if (selectors.profileById(context.api.getState(), profileId)?.gameId === GAME_ID) await checkSMAPIVersion(context.api, false);
+        });
         context.api.events.on('mod-enabled', (profileId: string, modId: string) => modToggled(context.api, profileId, modId));
-        // context.api.events.on('mod-disabled', (profileId: string, modId: string) => modToggled(context.api, profileId, modId));
+        // SMAPI won't load mods with the same UniqueID, so look for duplicates when mods are enabled or installed.
+        context.api.events.on('mod-enabled', (profileId: string, modId: string) => checkDuplicateIds(context.api, profileId, modId));
+        context.api.events.on('did-install-mod', (gameId: string, archiveId: string, modId: string) => {
+            if (gameId === GAME_ID) checkDuplicateIds(context.api, selectors.lastActiveProfileForGame(context.api.getState(), GAME_ID), modId);
+        });
+        // Warn about mods that depend on a mod being disabled or removed.
+        context.api.events.on('mod-disabled', (profileId: string, modId: string) => modDisabled(context.api, profileId, modId));
+        context.api.onAsync('will-remove-mod', async (gameId: string, modId: string) => willRemoveMod(context.api, gameId, modId));
+        // Keep the user's config.json when a mod is reinstalled, updated or removed and installed again later.
+        // Any SMAPI mods turned off inside it are moved back first, so their configs are kept too.
+        context.api.onAsync('will-install-mod', async (gameId: string, archiveId: string, modId: string) => {
+            await restoreSubMods(context.api, gameId, modId, false);
+            await snapshotConfig(context.api, gameId, modId);
+        });
+        context.api.onAsync('will-remove-mod', async (gameId: string, modId: string) => {
+            await restoreSubMods(context.api, gameId, modId, true);
+            await snapshotConfig(context.api, gameId, modId);
+        });
+        context.api.events.on('did-install-mod', (gameId: string, archiveId: string, modId: string) => restoreConfig(context.api, gameId, modId));
+        // SMAPI mods turned off inside an archive are moved out of the staging folder, then each profile's own
+        // mod config and data files are put in place before deploying.
+        context.api.onAsync('will-deploy', (profileId: string) => swapProfileFiles(context.api, profileId));
+        context.api.events.on('profile-did-change', (profileId: string) => swapProfileFiles(context.api, profileId));
+        // SMAPI's own settings are kept per profile and written to its config.user.json before deploying.
+        context.api.onAsync('will-deploy', (profileId: string) => applySMAPISettings(context.api, profileId));
     });
     return true;
 }
@@ -2,8 +2,12 @@ import * as path from 'path';
 import * as rjson from 'relaxed-json';
 import { fs, types, log, util } from 'vortex-api';
 import { GAME_ID, getManifestValue } from '../common';
-import { ISMAPIManifest, SMAPIManifestClass } from '../types/smapi-types';
-import SMAPI_API, { getModDependencies } from '../SMAPI_API';
+import { getManifestDependencies, ISMAPIDependency } from '../dependency-graph';
+import { SemanticVersion } from '../semantic-version';
+import { IModRulePlusType, ISMAPIManifest, ISMAPIManifestProblem, SMAPIManifestClass } from '../types/smapi-types';
+import { getModDependencies, IDependencyResolution } from '../SMAPI_API';
+import { isValidManifest, manifestAttributes, readManifestFile } from '../smapi-attributes';
+import { lintManifest } from '../manifest-lint';
 
 const PTRN_CONTENT = path.sep + 'Content' + path.sep;
 const MANIFEST_FILE = 'manifest.json';
@@ -21,19 +25,13 @@ async function testSupported(files: string[], gameId: string) {
     return { supported };
 }
 
-function isValidManifest(filePath: string): boolean {
-    const segments = filePath.toLowerCase().split(path.sep);
-    const isManifestFile = segments[segments.length - 1] === MANIFEST_FILE;
-    const isLocale = segments.includes('locale');
-    return isManifestFile && !isLocale;
-}
-
 interface IModwithManifest {
     manifest: ISMAPIManifest;
     manifestFile: string;
     rootFolder: string;
     manifestIndex: number;
     modFiles: string[];
+    problems: ISMAPIManifestProblem[];
 }
 
 async function install(context: types.IExtensionContext, files: string[], destinationPath: string): Promise<types.IInstallResult> {
@@ -41,12 +39,6 @@ async function install(context: types.IExtensionContext, files: string[], destin
     //  imply that we're installing multiple mods.
     const manifestFiles = files.filter(isValidManifest);
 
-    // Collect the unique IDs and versions from the manifests
-    const smapiManifests: {[id: string]: ISMAPIManifest} = {};
-    
-    // Collect any modrules
-    let rules : types.IModRule[] = [];
-    
     // Gather data from the mod manifests. Use the manifest files to split the files list into mods. 
     const modManifests: IModwithManifest[] = await Promise.all(manifestFiles.map(async (manifestFile) => {
         const rootFolder = path.dirname(manifestFile);
@@ -56,19 +48,8 @@ async function install(context: types.IExtensionContext, files: string[], destin
             && (path.dirname(file) !== '.' || rootFolder === '.')
             && !file.endsWith(path.sep));
         
-        const manifest: ISMAPIManifest = new SMAPIManifestClass(await getModManifest(destinationPath, manifestFile));
-
-        if (!!manifest) {
-            // Convert to a consistent type
-            const modManifest = new SMAPIManifestClass(manifest);
-            // Save the data we need for SMAPI checks
-            const id: string = modManifest.UniqueID;
-            const installedVersion: string = modManifest.Version;
-            if (!!id && !!installedVersion) smapiManifests[id] = modManifest.toJSON();
-            // Add rule dependencies
-            // const modRules: types.IModRule[] = await getModDependencies(context, manifest);
-            // if (modRules.length) rules = [...modRules, ... rules];
-        }
+        const read = await readManifestFile(path.join(destinationPath, manifestFile));
+        const manifest: ISMAPIManifest = new SMAPIManifestClass(read.manifest);
         
         return {
             manifest,
@@ -76,6 +57,7 @@ async function install(context: types.IExtensionContext, files: string[], destin
             rootFolder,
             manifestIndex,
             modFiles,
+            problems: lintManifest(manifestFile, read, files),
         }
         
     }));
@@ -100,38 +82,110 @@ async function install(context: types.IExtensionContext, files: string[], destin
         });
     });
 
+    // Save the manifests in the mod attributes, for SMAPI checks later on.
+    const smapiAttributes = manifestAttributes(modManifests.map(m => m.manifest));
+    const smapiManifests = smapiAttributes.smapiManifests || {};
+
+    // Let the user know about any mistakes in the manifests, and keep them on the mod so they can be seen later.
+    const problems = modManifests.reduce((prev, cur) => prev.concat(cur.problems), [] as ISMAPIManifestProblem[]);
+    if (problems.length) {
+        smapiAttributes.smapiManifestProblems = problems;
+        notifyManifestProblems(context.api, modManifests.map(m => m.manifest), problems);
+    }
+
+    // Add rule dependencies for every manifest in the archive.
+    let rules: IModRulePlusType[] = [];
+    try {
+        const resolution = await getModDependencies(context.api, collectDependencies(Object.values(smapiManifests)));
+        rules = resolution.rules;
+        if (resolution.missing.length) await showMissingDependencies(context.api, modManifests.map(m => m.manifest), resolution);
+    }
+    catch(err) {
+        log('error', 'There was an error resolving dependencies for SMAPI mods', err);
+    }
+
     // Build instructions from our rules.
     const ruleInstr = rules.length ? rules.map(r => ({
         type: 'rule',
         rule: {
-            type: r.extra?.required ? 'requires' : 'recommends',
+            type: r.type || (r.extra?.required ? 'requires' : 'recommends'),
             comment: '',
             version: '*',
             ...r
         }
     })) : [];
 
-    // If we found some SMAPI IDs, save them as an attribute.
+    // Save the SMAPI attributes, including the schema version so the mod isn't migrated later.
     let instructions : types.IInstruction[] = [].concat.apply( [], modInstructions);
-    if (Object.keys(smapiManifests).length) instructions = [...instructions, { type: 'attribute', key: 'smapiManifests', value: smapiManifests }];
+    instructions = [...instructions, ...Object.keys(smapiAttributes)
+        .filter(key => smapiAttributes[key] !== undefined)
+        .map(key => ({ type: 'attribute', key, value: smapiAttributes[key] } as types.IInstruction))];
     if (ruleInstr.length) instructions = [...instructions, ...ruleInstr as types.IInstruction[]];
 
     return { instructions };
 }
 
-async function getModManifest(destinationPath: string, manfiestFile: string): Promise<ISMAPIManifest> {
-    const manifestPath = path.join(destinationPath, manfiestFile);
-    try {
-        const file = await fs.readFileBOM(manifestPath, 'utf8');
-        const manifest: ISMAPIManifest = rjson.parse(file);
-        return manifest;
+// Merge the dependencies of all the manifests in an archive, ignoring mods included in the same archive.
+function collectDependencies(manifests: ISMAPIManifest[]): ISMAPIDependency[] {
+    const included = manifests.map(m => getManifestValue(m, 'UniqueID')?.toLowerCase()).filter(id => !!id);
+    const dependencies: { [id: string]: ISMAPIDependency } = {};
+    for (const dependency of manifests.reduce((prev, cur) => prev.concat(getManifestDependencies(cur)), [] as ISMAPIDependency[])) {
+        const key = dependency.UniqueID.toLowerCase();
+        if (included.includes(key)) continue;
+        const existing = dependencies[key];
+        if (!existing) {
+            dependencies[key] = { ...dependency };
+            continue;
+        }
+        existing.isRequired = existing.isRequired || dependency.isRequired;
+        // Keep the highest minimum version.
+        const [a, b] = [SemanticVersion.parse(existing.MinimumVersion), SemanticVersion.parse(dependency.MinimumVersion)];
+        if (b && (!a || b.isNewerThan(a))) existing.MinimumVersion = dependency.MinimumVersion;
     }
-    catch(err) {
-        log('error', 'Unable to parse manifest.json file', manifestPath);
-        return {};
+    return Object.values(dependencies);
+}
+
+async function showMissingDependencies(api: types.IExtensionApi, manifests: ISMAPIManifest[], resolution: IDependencyResolution) {
+    const modName = manifests.map(m => getManifestValue(m, 'Name')).filter(n => !!n).join(', ') || 'This mod';
+    const describe = (m: IDependencyResolution['missing'][0]): string => {
+        const version = m.dependency.MinimumVersion ? ` ${m.dependency.MinimumVersion} or newer` : '';
+        const installed = m.installedVersion ? ` (you have ${m.installedVersion})` : '';
+        return `${m.name}${version}${installed}${m.url ? `\n  ${m.url}` : ''}`;
     }
+    const required = resolution.missing.filter(m => m.dependency.isRequired);
+    const optional = resolution.missing.filter(m => !m.dependency.isRequired);
+    await api.showDialog('info', 'Mod requirements', {
+        text: `${modName} needs some other mods which aren't installed yet. Vortex will offer to install them when the mod is enabled.`,
+        message: [
+            ...(required.length ? [`Required:\n${required.map(describe).join('\n')}`] : []),
+            ...(optional.length ? [`Optional:\n${optional.map(describe).join('\n')}`] : []),
+        ].join('\n\n'),
+    }, [ { label: 'Continue' } ]);
 }
 
+function notifyManifestProblems(api: types.IExtensionApi, manifests: ISMAPIManifest[], problems: ISMAPIManifestProblem[]) {
+    const modName = manifests.map(m => m.Name).filter(n => !!n).join(', ') || 'A mod being installed';
+    const errors = problems.filter(p => p.severity === 'error');
+    api.sendNotification({
+        id: `sdv-manifest-problems-${modName}`,
+        type: errors.length ? 'warning' : 'info',
+        title: errors.length ? `${modName} may not load in SMAPI` : `${modName} has problems in its manifest`,
+        message: `${problems.length} problem(s) found in manifest.json`,
+        actions: [
+            {
+                title: 'More',
+                action: (dismiss) => {
+                    api.showDialog('info', 'Manifest problems', {
+                        text: `These problems were found in the manifest.json files of ${modName}. `
+                            + (errors.length ? 'SMAPI will refuse to load mods with errors, you may need to contact the mod author or find an updated version.' : 'The mod should still load, but some features may not work.'),
+                        message: problems.map(p => `[${p.severity.toUpperCase()}] ${p.uniqueId || p.manifestFile}: ${p.message}`).join('\n'),
+                    }, [ { label: 'Close' } ]);
+                    dismiss();
+                }
+            }
+        ]
+    });
+}
 
 async function getModName(destinationPath: string, manifestFile: string): Promise<string> {
     const manifestPath = path.join(destinationPath, manifestFile);
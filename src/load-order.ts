@@ -0,0 +1,122 @@
+import { types } from 'vortex-api';
+import { getManifestDependencies, ISMAPIDependency } from './dependency-graph';
+import { meetsMinimumVersion } from './semantic-version';
+import { getManifests } from './smapi-attributes';
+import { SMAPIManifestClass } from './types/smapi-types';
+
+type LoadOrderProblemType = 'cycle' | 'missing' | 'version' | 'orphan';
+
+interface ILoadOrderProblem {
+    type: LoadOrderProblemType;
+    /**The UniqueID of the dependency involved. */
+    uniqueId: string;
+    message: string;
+}
+
+/**
+ * A SMAPI mod or content pack in the order SMAPI would load it.
+ *
+ * @interface ILoadOrderEntry
+ */
+interface ILoadOrderEntry {
+    uniqueId: string;
+    name: string;
+    version: string;
+    isContentPack: boolean;
+    /**The Vortex mod the manifest was installed with. */
+    modId: string;
+    dependencies: ISMAPIDependency[];
+    /**UniqueIDs of installed mods which depend on this one. */
+    dependants: string[];
+    problems: ILoadOrderProblem[];
+}
+
+interface ILoadOrder {
+    entries: ILoadOrderEntry[];
+    /**Groups of UniqueIDs which depend on each other. SMAPI won't load any of them. */
+    cycles: string[][];
+}
+
+/**
+ * Work out the order SMAPI will load the given mods in. Like SMAPI, mods are sorted by name and then
+ * each mod is moved after anything it depends on, including optional dependencies which are installed.
+ *
+ * @param {{ [id: string]: types.IMod }} mods - The enabled mods for Stardew Valley.
+ * @returns {ILoadOrder} The load order and any problems found on the way.
+ *
+ */
+function computeLoadOrder(mods: { [id: string]: types.IMod }): ILoadOrder {
+    const nodes: { [uniqueId: string]: ILoadOrderEntry } = {};
+    for (const mod of Object.values(mods)) {
+        for (const raw of Object.values(getManifests(mod))) {
+            const manifest = new SMAPIManifestClass(raw);
+            if (!manifest.UniqueID) continue;
+            nodes[manifest.UniqueID.toLowerCase()] = {
+                uniqueId: manifest.UniqueID,
+                name: manifest.Name || manifest.UniqueID,
+                version: manifest.Version,
+                isContentPack: !!manifest.asContentPack(),
+                modId: mod.id,
+                dependencies: getManifestDependencies(raw),
+                dependants: [],
+                problems: [],
+            };
+        }
+    }
+
+    // Check each dependency is installed and new enough.
+    for (const node of Object.values(nodes)) {
+        for (const dependency of node.dependencies) {
+            const target = nodes[dependency.UniqueID.toLowerCase()];
+            if (target) {
+                target.dependants.push(node.uniqueId);
+                if (dependency.MinimumVersion && !meetsMinimumVersion(target.version, dependency.MinimumVersion)) {
+                    node.problems.push({ type: 'version', uniqueId: target.uniqueId, message: `Needs ${target.name} ${dependency.MinimumVersion} or newer, but ${target.version} is installed.` });
+                }
+            }
+            else if (dependency.isContentPackFor) {
+                node.problems.push({ type: 'orphan', uniqueId: dependency.UniqueID, message: `Content pack for ${dependency.UniqueID}, which isn't installed.` });
+            }
+            else if (dependency.isRequired) {
+                node.problems.push({ type: 'missing', uniqueId: dependency.UniqueID, message: `Requires ${dependency.UniqueID}, which isn't installed.` });
+            }
+        }
+    }
+
+    const sorted = Object.values(nodes).sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+    const entries: ILoadOrderEntry[] = [];
+    const cycles: string[][] = [];
+    const visited = new Set<string>();
+    const visiting: string[] = [];
+
+    const visit = (node: ILoadOrderEntry) => {
+        const key = node.uniqueId.toLowerCase();
+        if (visited.has(key)) return;
+        const cycleStart = visiting.indexOf(key);
+        if (cycleStart !== -1) {
+            const cycle = visiting.slice(cycleStart).map(id => nodes[id].uniqueId);
+            cycles.push(cycle);
+            for (const id of cycle) {
+                const member = nodes[id.toLowerCase()];
+                if (!member.problems.find(p => p.type === 'cycle')) {
+                    member.problems.push({ type: 'cycle', uniqueId: id, message: `Part of a dependency loop: ${[...cycle, cycle[0]].join(' → ')}.` });
+                }
+            }
+            return;
+        }
+
+        visiting.push(key);
+        for (const dependency of node.dependencies) {
+            const target = nodes[dependency.UniqueID.toLowerCase()];
+            if (target) visit(target);
+        }
+        visiting.pop();
+        visited.add(key);
+        entries.push(node);
+    };
+
+    sorted.forEach(visit);
+    return { entries, cycles };
+}
+
+export { LoadOrderProblemType, ILoadOrderProblem, ILoadOrderEntry, ILoadOrder, computeLoadOrder };
@@ -0,0 +1,90 @@
+import * as path from 'path';
+import { readKey } from './dependency-graph';
+import { isValidUpdateKey } from './SMAPI_API';
+import { SemanticVersion } from './semantic-version';
+import { IManifestReadResult } from './smapi-attributes';
+import { ISMAPIManifestProblem } from './types/smapi-types';
+
+// SMAPI won't load a mod without these.
+const REQUIRED_FIELDS = ['Name', 'UniqueID', 'Version'];
+
+/**
+ * Check a manifest.json file from an archive for the mistakes that stop SMAPI loading a mod, or cause problems later on.
+ *
+ * @param {string} manifestFile - The manifest path, relative to the archive.
+ * @param {IManifestReadResult} read - The result of reading the manifest.
+ * @param {string[]} files - All the files in the archive, used to check the EntryDll exists.
+ * @returns {ISMAPIManifestProblem[]} Any problems found, errors first.
+ *
+ */
+function lintManifest(manifestFile: string, read: IManifestReadResult, files: string[]): ISMAPIManifestProblem[] {
+    const { manifest } = read;
+    const rawId = readKey(manifest, 'UniqueID');
+    const uniqueId: string | undefined = typeof rawId === 'string' && rawId.trim() ? rawId.trim() : undefined;
+    const problems: ISMAPIManifestProblem[] = [];
+    const report = (severity: ISMAPIManifestProblem['severity'], message: string) =>
+        problems.push({ manifestFile, ...(uniqueId ? { uniqueId } : {}), severity, message });
+
+    if (read.error) {
+        report('error', `The manifest couldn't be read: ${read.error}`);
+        return problems;
+    }
+    if (read.repaired) report('warning', 'The manifest isn\'t valid JSON. Vortex was able to repair it, but other tools may not.');
+
+    for (const field of REQUIRED_FIELDS) {
+        const value = readKey(manifest, field);
+        if (typeof value !== 'string' || !value.trim()) report('error', `The ${field} field is missing or empty.`);
+    }
+    const version = readKey(manifest, 'Version');
+    // Vortex accepts a leading "v" from release tags, but SMAPI doesn't in a manifest.
+    if (typeof version === 'string' && version.trim() && (!SemanticVersion.parse(version) || /^v/i.test(version.trim()))) report('error', `The version "${version}" isn't a valid version number.`);
+
+    const entryDll = readKey(manifest, 'EntryDll');
+    const contentPackFor = readKey(manifest, 'ContentPackFor');
+    if (entryDll !== undefined && contentPackFor !== undefined) {
+        report('error', 'The manifest sets both EntryDll and ContentPackFor, so SMAPI can\'t tell if it\'s a mod or a content pack.');
+    }
+    else if (entryDll !== undefined) {
+        const rootFolder = path.dirname(manifestFile);
+        const dllPath = path.normalize(path.join(rootFolder, String(entryDll))).toLowerCase();
+        if (!files.find(file => path.normalize(file).toLowerCase() === dllPath)) report('error', `The EntryDll "${entryDll}" isn't included in the archive.`);
+    }
+    else if (contentPackFor !== undefined && !readKey(contentPackFor, 'UniqueID')) {
+        report('error', 'The ContentPackFor field doesn\'t include the UniqueID of the mod it\'s for.');
+    }
+
+    lintDependencies(readKey(manifest, 'Dependencies')).forEach(message => report('warning', message));
+    lintUpdateKeys(readKey(manifest, 'UpdateKeys')).forEach(message => report('warning', message));
+
+    return problems.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
+
+function lintDependencies(dependencies: any): string[] {
+    if (dependencies === undefined) return [];
+    if (!Array.isArray(dependencies)) return ['The Dependencies field should be a list.'];
+    const messages: string[] = [];
+    dependencies.forEach((dependency, idx) => {
+        const label = `Dependency ${idx + 1}`;
+        if (!dependency || typeof dependency !== 'object') {
+            messages.push(`${label} isn't in the expected format.`);
+            return;
+        }
+        const dependencyId = readKey(dependency, 'UniqueID');
+        if (typeof dependencyId !== 'string' || !dependencyId.trim()) messages.push(`${label} doesn't have a UniqueID.`);
+        const minimumVersion = readKey(dependency, 'MinimumVersion');
+        if (minimumVersion !== undefined && !SemanticVersion.parse(minimumVersion)) messages.push(`${dependencyId || label} has an invalid MinimumVersion "${minimumVersion}".`);
+        const isRequired = readKey(dependency, 'IsRequired');
+        if (isRequired !== undefined && typeof isRequired !== 'boolean') messages.push(`${dependencyId || label} has an IsRequired value which isn't true or false.`);
+    });
+    return messages;
+}
+
+function lintUpdateKeys(updateKeys: any): string[] {
+    if (updateKeys === undefined) return [];
+    if (!Array.isArray(updateKeys)) return ['The UpdateKeys field should be a list.'];
+    return updateKeys
+        .filter(key => !isValidUpdateKey(key))
+        .map(key => `The update key "${key}" isn't valid, so SMAPI won't be able to check it for updates.`);
+}
+
+export { lintManifest };
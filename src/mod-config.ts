@@ -0,0 +1,311 @@
+import * as path from 'path';
+import * as rjson from 'relaxed-json';
+import { fs, log, selectors, types } from 'vortex-api';
+import { GAME_ID } from './common';
+import { readKey } from './dependency-graph';
+import { findManifestFiles, readManifest } from './smapi-attributes';
+
+// SMAPI mods create this next to their manifest the first time they're loaded.
+const CONFIG_FILE = 'config.json';
+// Content Patcher packs describe their config options in here.
+const CONTENT_FILE = 'content.json';
+
+/**
+ * A SMAPI mod folder inside a staged Vortex mod.
+ *
+ * @interface IModFolder
+ */
+interface IModFolder {
+    uniqueId: string;
+    /**The full path to the folder containing the manifest. */
+    folder: string;
+    /**The full path to the config file, which may not exist yet. */
+    configPath: string;
+}
+
+/**
+ * The result of merging a saved config into the config shipped with a new version of a mod.
+ *
+ * @interface IConfigMerge
+ */
+interface IConfigMerge {
+    merged: object;
+    /**Settings the new version added, these keep their default values. */
+    added: string[];
+    /**Settings the new version no longer has, these are dropped. */
+    removed: string[];
+}
+
+type ConfigFieldType = 'boolean' | 'number' | 'string' | 'select' | 'multiselect' | 'json';
+
+/**
+ * A setting shown in the config editor.
+ *
+ * @interface IConfigField
+ */
+interface IConfigField {
+    /**The keys leading to the setting, for nested settings this has more than one entry. */
+    path: string[];
+    type: ConfigFieldType;
+    /**The value as shown in the editor. Lists are comma separated and JSON is formatted. */
+    value: string | boolean;
+    description?: string;
+    section?: string;
+    /**The values allowed by a Content Patcher ConfigSchema. */
+    allowValues?: string[];
+    allowBlank?: boolean;
+    /**The type of the value in config.json, so it's written back the same way. */
+    valueType: 'boolean' | 'number' | 'string' | 'json';
+}
+
+/**
+ * Find the SMAPI mod folders inside a staged mod by reading its manifests.
+ *
+ * @param {types.IState} state - The Vortex state.
+ * @param {types.IMod} mod - The Vortex mod.
+ * @returns {Promise<IModFolder[]>} A folder for each manifest with a UniqueID.
+ *
+ */
+async function getModFolders(state: types.IState, mod: types.IMod): Promise<IModFolder[]> {
+    const stagingFolder: string = selectors.installPathForGame(state, GAME_ID);
+    if (!stagingFolder || !mod?.installationPath) return [];
+    return findModFolders(path.join(stagingFolder, mod.installationPath), mod.id);
+}
+
+/**
+ * Find the SMAPI mod folders under a folder by reading their manifests.
+ *
+ * @param {string} root - The folder to search.
+ * @param {string} [modId] - The Vortex mod the folder belongs to, for logging.
+ * @returns {Promise<IModFolder[]>} A folder for each manifest with a UniqueID, or an empty list if the folder doesn't exist.
+ *
+ */
+async function findModFolders(root: string, modId?: string): Promise<IModFolder[]> {
+    let manifestFiles: string[];
+    try {
+        manifestFiles = await findManifestFiles(root);
+    }
+    catch(err) {
+        if (err.code !== 'ENOENT') log('warn', 'Unable to find the manifests of a staged SMAPI mod', { modId, error: err.message });
+        return [];
+    }
+
+    const folders: IModFolder[] = [];
+    for (const manifestFile of manifestFiles) {
+        const uniqueId: string = readKey(await readManifest(manifestFile), 'UniqueID');
+        if (!uniqueId) continue;
+        const folder = path.dirname(manifestFile);
+        folders.push({ uniqueId, folder, configPath: path.join(folder, CONFIG_FILE) });
+    }
+    return folders;
+}
+
+/**
+ * Get a name for files kept for a SMAPI mod outside its folder, like saved configs.
+ *
+ * @param {string} uniqueId - The UniqueID of the SMAPI mod.
+ * @returns {string} The UniqueID in lower case with anything unsafe in a file name replaced.
+ *
+ */
+function safeFileName(uniqueId: string): string {
+    return uniqueId.toLowerCase().replace(/[^a-z0-9._-]/g, '_');
+}
+
+/**
+ * Read a mod config file. Like manifests, these are edited by hand and may not be valid JSON.
+ *
+ * @param {string} configPath - The full path to the config file.
+ * @returns {Promise<object | undefined>} The config, or undefined if it doesn't exist or can't be read.
+ *
+ */
+async function readConfig(configPath: string): Promise<object | undefined> {
+    try {
+        const file = await fs.readFileBOM(configPath, 'utf8');
+        const config = rjson.parse(file);
+        return isObject(config) ? config : undefined;
+    }
+    catch(err) {
+        if (err.code !== 'ENOENT') log('warn', 'Unable to read mod config file', { configPath, error: err.message });
+        return undefined;
+    }
+}
+
+async function writeConfig(configPath: string, config: object): Promise<void> {
+    await fs.ensureDirAsync(path.dirname(configPath));
+    // SMAPI writes configs indented with two spaces.
+    await fs.writeFileAsync(configPath, JSON.stringify(config, null, 2), { encoding: 'utf8' });
+}
+
+const isObject = (value: any): boolean => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Merge a saved config into the config shipped with a new version of a mod. Settings in both keep the saved value,
+ * settings only in the new config keep their default and settings only in the saved config are dropped.
+ *
+ * @param {object} saved - The config from the previous version.
+ * @param {object} current - The config shipped with the new version.
+ * @param {string} [prefix] - Used to report the full path of nested settings.
+ * @returns {IConfigMerge} The merged config and the settings which were added or removed.
+ *
+ */
+function mergeConfig(saved: object, current: object, prefix: string = ''): IConfigMerge {
+    const result: IConfigMerge = { merged: {}, added: [], removed: [] };
+    // Keys in SMAPI configs aren't case sensitive.
+    const savedKeys: { [lower: string]: string } = Object.keys(saved).reduce((prev, key) => ({ ...prev, [key.toLowerCase()]: key }), {});
+
+    for (const key of Object.keys(current)) {
+        const savedKey = savedKeys[key.toLowerCase()];
+        delete savedKeys[key.toLowerCase()];
+        if (savedKey === undefined) {
+            result.merged[key] = current[key];
+            result.added.push(prefix + key);
+        }
+        else if (isObject(current[key]) && isObject(saved[savedKey])) {
+            // Nested settings are merged the same way.
+            const nested = mergeConfig(saved[savedKey], current[key], `${prefix}${key}.`);
+            result.merged[key] = nested.merged;
+            result.added.push(...nested.added);
+            result.removed.push(...nested.removed);
+        }
+        else result.merged[key] = saved[savedKey];
+    }
+
+    result.removed.push(...Object.values(savedKeys).map(key => prefix + key));
+    return result;
+}
+
+/**
+ * Read the ConfigSchema of a Content Patcher pack.
+ *
+ * @param {string} folder - The folder containing the pack's manifest.
+ * @returns {Promise<object | undefined>} The schema keyed by setting name, or undefined if this isn't a Content Patcher pack with settings.
+ *
+ */
+async function readConfigSchema(folder: string): Promise<object | undefined> {
+    const content = await readConfig(path.join(folder, CONTENT_FILE));
+    const schema = readKey(content, 'ConfigSchema');
+    return isObject(schema) && Object.keys(schema).length ? schema : undefined;
+}
+
+// Content Patcher lists allowed values as a comma separated string.
+const splitValues = (input: any): string[] => String(input ?? '').split(',').map(v => v.trim()).filter(v => !!v);
+
+/**
+ * Build the fields for the config editor. Content Patcher packs use their ConfigSchema, other mods are described by their existing values.
+ *
+ * @param {object | undefined} config - The current config.json, if the mod has created one.
+ * @param {object} [schema] - The ConfigSchema from a Content Patcher pack.
+ * @returns {IConfigField[]} The fields to show.
+ *
+ */
+function getConfigFields(config: object | undefined, schema?: object): IConfigField[] {
+    if (schema) return Object.keys(schema).map(key => schemaField(key, schema[key], readKey(config, key)));
+    return inferFields(config || {}, []);
+}
+
+function schemaField(key: string, definition: object, current: any): IConfigField {
+    const allowValues = splitValues(readKey(definition, 'AllowValues'));
+    const allowMultiple = readKey(definition, 'AllowMultiple') === true;
+    const value = current ?? readKey(definition, 'Default') ?? '';
+    const isBoolean = allowValues.length === 2 && allowValues.every(v => ['true', 'false'].includes(v.toLowerCase()));
+    const field: IConfigField = {
+        path: [key],
+        type: isBoolean ? 'boolean' : allowValues.length ? (allowMultiple ? 'multiselect' : 'select') : 'string',
+        value: isBoolean ? String(value).toLowerCase() === 'true' : String(value),
+        allowValues: allowValues.length ? allowValues : undefined,
+        allowBlank: readKey(definition, 'AllowBlank') === true,
+        // Content Patcher saves everything as text, unless the user has written a true/false value.
+        valueType: typeof current === 'boolean' ? 'boolean' : 'string',
+    };
+    const description = readKey(definition, 'Description');
+    const section = readKey(definition, 'Section');
+    if (description) field.description = String(description);
+    if (section) field.section = String(section);
+    return field;
+}
+
+function inferFields(config: object, parent: string[]): IConfigField[] {
+    const fields: IConfigField[] = [];
+    for (const key of Object.keys(config)) {
+        const value = config[key];
+        const fieldPath = [...parent, key];
+        if (isObject(value) && Object.keys(value).length) fields.push(...inferFields(value, fieldPath));
+        else if (typeof value === 'boolean') fields.push({ path: fieldPath, type: 'boolean', value, valueType: 'boolean' });
+        else if (typeof value === 'number') fields.push({ path: fieldPath, type: 'number', value: String(value), valueType: 'number' });
+        else if (typeof value === 'string') fields.push({ path: fieldPath, type: 'string', value, valueType: 'string' });
+        // Lists, nulls and empty objects are edited as JSON.
+        else fields.push({ path: fieldPath, type: 'json', value: JSON.stringify(value, null, 2), valueType: 'json' });
+    }
+    return fields;
+}
+
+/**
+ * Check a value entered in the config editor.
+ *
+ * @param {IConfigField} field - The field being edited.
+ * @param {string | boolean} value - The value entered.
+ * @returns {string | undefined} A description of the problem, or undefined if the value is fine.
+ *
+ */
+function validateField(field: IConfigField, value: string | boolean): string | undefined {
+    if (typeof value === 'boolean') return undefined;
+    if (field.type === 'number' && (value.trim() === '' || isNaN(Number(value)))) return 'This must be a number.';
+    if (field.type === 'json') {
+        try {
+            JSON.parse(value);
+        }
+        catch(err) {
+            return 'This isn\'t valid JSON.';
+        }
+        return undefined;
+    }
+    if (field.allowValues) {
+        const values = field.type === 'multiselect' ? splitValues(value) : [value.trim()].filter(v => !!v);
+        if (!values.length && !field.allowBlank) return 'Choose a value.';
+        const invalid = values.filter(v => !field.allowValues.find(a => a.toLowerCase() === v.toLowerCase()));
+        if (invalid.length) return `Not allowed: ${invalid.join(', ')}.`;
+    }
+    else if (field.allowBlank === false && !value.trim()) return 'This can\'t be blank.';
+    return undefined;
+}
+
+/**
+ * Apply the values from the config editor to a config, keeping any settings the editor didn't show.
+ *
+ * @param {object | undefined} config - The current config.json.
+ * @param {IConfigField[]} fields - The fields shown in the editor.
+ * @param {{ [key: string]: string | boolean }} values - The edited values, keyed by the field path joined with dots.
+ * @returns {object} The updated config.
+ *
+ */
+function applyConfigValues(config: object | undefined, fields: IConfigField[], values: { [key: string]: string | boolean }): object {
+    const result = JSON.parse(JSON.stringify(config || {}));
+    for (const field of fields) {
+        const value = values[field.path.join('.')];
+        if (value === undefined) continue;
+        let target = result;
+        for (const key of field.path.slice(0, -1)) {
+            const existing = Object.keys(target).find(k => k.toLowerCase() === key.toLowerCase()) ?? key;
+            if (!isObject(target[existing])) target[existing] = {};
+            target = target[existing];
+        }
+        const last = field.path[field.path.length - 1];
+        const key = Object.keys(target).find(k => k.toLowerCase() === last.toLowerCase()) ?? last;
+        target[key] = toConfigValue(field, value);
+    }
+    return result;
+}
+
+function toConfigValue(field: IConfigField, value: string | boolean): any {
+    switch (field.valueType) {
+        case 'boolean': return typeof value === 'boolean' ? value : value.toLowerCase() === 'true';
+        case 'number': return Number(value);
+        case 'json': return JSON.parse(String(value));
+        default: return typeof value === 'boolean' ? String(value) : value;
+    }
+}
+
+export {
+    CONFIG_FILE, IModFolder, IConfigMerge, IConfigField, ConfigFieldType,
+    getModFolders, findModFolders, safeFileName, readConfig, writeConfig, mergeConfig, readConfigSchema, getConfigFields, validateField, applyConfigValues
+};
@@ -0,0 +1,127 @@
+// Based on SMAPI's SemanticVersion, which accepts "major.minor[.patch[.platformRelease]][-prerelease][+build]".
+// https://github.com/Pathoschild/SMAPI/blob/develop/src/SMAPI.Toolkit.CoreInterfaces/SemanticVersion.cs
+const PTRN_VERSION = /^(0|[1-9]\d*)\.(0|[1-9]\d*)(?:\.(0|[1-9]\d*))?(?:\.(0|[1-9]\d*))?(?:-([a-z0-9]+(?:[-.][a-z0-9]+)*))?(?:\+([a-z0-9.-]+))?$/i;
+
+/**
+ * A version number parsed and compared the same way SMAPI does, so the results match what the user will see in game.
+ *
+ * @class SemanticVersion
+ */
+class SemanticVersion {
+    public major: number;
+    public minor: number;
+    public patch: number;
+    /**The fourth number used by some older mods, e.g. 1.2.3.4. SMAPI only accepts this as a non-standard version. */
+    public platformRelease: number;
+    public prerelease: string | undefined;
+    /**Build metadata is kept for display but ignored when comparing. */
+    public build: string | undefined;
+
+    constructor(major: number, minor: number = 0, patch: number = 0, platformRelease: number = 0, prerelease?: string, build?: string) {
+        this.major = major;
+        this.minor = minor;
+        this.patch = patch;
+        this.platformRelease = platformRelease;
+        this.prerelease = prerelease || undefined;
+        this.build = build || undefined;
+    }
+
+    /**
+     * Parse a version string.
+     *
+     * @param {string} input - The version, e.g. "1.2", "v1.2.3", "1.2.3-beta.4" or "1.2.3.4".
+     * @param {boolean} [allowNonStandard] - Accept a fourth version number, as SMAPI does for mod versions.
+     * @returns {SemanticVersion | undefined} The parsed version, or undefined if it isn't valid.
+     *
+     */
+    public static parse(input: string | SemanticVersion | undefined, allowNonStandard: boolean = true): SemanticVersion | undefined {
+        if (input instanceof SemanticVersion) return input;
+        if (typeof input !== 'string') return undefined;
+        // Release tags are often written with a leading "v", e.g. "v1.2.3".
+        const match = PTRN_VERSION.exec(input.trim().replace(/^v(?=\d)/i, ''));
+        if (!match) return undefined;
+        const [ , major, minor, patch, platformRelease, prerelease, build ] = match;
+        if (platformRelease !== undefined && !allowNonStandard) return undefined;
+        return new SemanticVersion(
+            parseInt(major, 10), parseInt(minor, 10), parseInt(patch || '0', 10), parseInt(platformRelease || '0', 10), prerelease, build
+        );
+    }
+
+    /**
+     * Compare two versions. If either version can't be parsed they're compared as strings, so the result is still stable.
+     *
+     * @param {string | SemanticVersion} a - The first version.
+     * @param {string | SemanticVersion} b - The second version.
+     * @returns {number} Less than zero if a precedes b, zero if they're equal, greater than zero if a follows b.
+     *
+     */
+    public static compare(a: string | SemanticVersion, b: string | SemanticVersion): number {
+        const [parsedA, parsedB] = [SemanticVersion.parse(a), SemanticVersion.parse(b)];
+        if (parsedA && parsedB) return parsedA.compareTo(parsedB);
+        return String(a ?? '').trim().toLowerCase().localeCompare(String(b ?? '').trim().toLowerCase());
+    }
+
+    public compareTo(other: SemanticVersion): number {
+        for (const key of ['major', 'minor', 'patch', 'platformRelease']) {
+            if (this[key] !== other[key]) return this[key] < other[key] ? -1 : 1;
+        }
+
+        const [cur, oth] = [this.prerelease || '', other.prerelease || ''];
+        if (cur.toLowerCase() === oth.toLowerCase()) return 0;
+        // A stable release follows any prerelease of the same version.
+        if (!cur) return 1;
+        if (!oth) return -1;
+
+        const curParts = cur.split(/[.-]/);
+        const othParts = oth.split(/[.-]/);
+        for (let i = 0; i < Math.max(curParts.length, othParts.length); i++) {
+            // If the tags are otherwise equal the longer one follows.
+            if (curParts.length <= i) return -1;
+            if (othParts.length <= i) return 1;
+            if (curParts[i].toLowerCase() === othParts[i].toLowerCase()) continue;
+            // Compare numerically where possible, otherwise alphabetically.
+            if (/^\d+$/.test(curParts[i]) && /^\d+$/.test(othParts[i])) return parseInt(curParts[i], 10) < parseInt(othParts[i], 10) ? -1 : 1;
+            return curParts[i].toLowerCase() < othParts[i].toLowerCase() ? -1 : 1;
+        }
+        return 0;
+    }
+
+    public isOlderThan(other: string | SemanticVersion): boolean {
+        const parsed = SemanticVersion.parse(other);
+        return !!parsed && this.compareTo(parsed) < 0;
+    }
+
+    public isNewerThan(other: string | SemanticVersion): boolean {
+        const parsed = SemanticVersion.parse(other);
+        return !!parsed && this.compareTo(parsed) > 0;
+    }
+
+    public isPrerelease(): boolean {
+        return !!this.prerelease;
+    }
+
+    public toString(): string {
+        let version = `${this.major}.${this.minor}.${this.patch}`;
+        if (this.platformRelease) version += `.${this.platformRelease}`;
+        if (this.prerelease) version += `-${this.prerelease}`;
+        if (this.build) version += `+${this.build}`;
+        return version;
+    }
+}
+
+/**
+ * Check if an installed version meets a minimum version, like SMAPI does for dependencies and MinimumApiVersion.
+ * Versions which can't be parsed are assumed to be fine, as SMAPI reports those separately.
+ *
+ * @param {string} installed - The installed version.
+ * @param {string} minimum - The minimum version required.
+ * @returns {boolean} True unless the installed version is older than the minimum.
+ *
+ */
+function meetsMinimumVersion(installed: string | undefined, minimum: string | undefined): boolean {
+    const [parsedInstalled, parsedMinimum] = [SemanticVersion.parse(installed), SemanticVersion.parse(minimum)];
+    if (!parsedInstalled || !parsedMinimum) return true;
+    return !parsedInstalled.isOlderThan(parsedMinimum);
+}
+
+export { SemanticVersion, meetsMinimumVersion };
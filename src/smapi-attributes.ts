@@ -0,0 +1,221 @@
+import * as path from 'path';
+import * as rjson from 'relaxed-json';
+import { actions, fs, log, selectors, types, util } from 'vortex-api';
+import { GAME_ID } from './common';
+import { ILegacySMAPIAttributes, ISMAPICompatibility, ISMAPIManifest, ISMAPIManifestProblem, ISMAPIModAttributes, ISMAPIUpdateInfo, SMAPIManifestClass } from './types/smapi-types';
+
+/**
+ * The result of reading a manifest.json file.
+ *
+ * @interface IManifestReadResult
+ */
+interface IManifestReadResult {
+    manifest: ISMAPIManifest;
+    /**True if the file wasn't valid JSON and relaxed-json had to repair it. */
+    repaired: boolean;
+    /**Why the file couldn't be read, if it couldn't. */
+    error?: string;
+}
+
+// Increase this when the shape of ISMAPIModAttributes changes, so installed mods are rebuilt from their manifests.
+const SMAPI_ATTRIBUTES_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+// Only run one migration at a time, the game can be activated again before it finishes.
+let migration: Promise<void> | undefined;
+
+/**
+ * Get the SMAPI metadata stored on a mod.
+ *
+ * @param {types.IMod} mod - The Vortex mod.
+ * @returns {ISMAPIModAttributes} The SMAPI attributes, which may be empty.
+ *
+ */
+function getSMAPIAttributes(mod: types.IMod | undefined): ISMAPIModAttributes {
+    return (mod?.attributes || {}) as ISMAPIModAttributes;
+}
+
+function getManifests(mod: types.IMod | undefined): { [uniqueId: string]: ISMAPIManifest } {
+    return getSMAPIAttributes(mod).smapiManifests || {};
+}
+
+function hasManifests(mod: types.IMod | undefined): boolean {
+    return Object.keys(getManifests(mod)).length > 0;
+}
+
+function getUniqueIds(mod: types.IMod | undefined): string[] {
+    return Object.keys(getManifests(mod));
+}
+
+/**
+ * Find the manifest for a UniqueID in a mod. UniqueIDs are not case sensitive in SMAPI.
+ *
+ * @param {types.IMod} mod - The Vortex mod.
+ * @param {string} uniqueId - The UniqueID to find.
+ * @returns {ISMAPIManifest | undefined} The manifest, if the mod includes it.
+ *
+ */
+function findManifest(mod: types.IMod | undefined, uniqueId: string): ISMAPIManifest | undefined {
+    const manifests = getManifests(mod);
+    const key = Object.keys(manifests).find(id => id.toLowerCase() === uniqueId?.toLowerCase());
+    return key !== undefined ? manifests[key] : undefined;
+}
+
+function getUpdates(mod: types.IMod | undefined): { [uniqueId: string]: ISMAPIUpdateInfo } {
+    return getSMAPIAttributes(mod).smapiUpdates || {};
+}
+
+function getCompatibility(mod: types.IMod | undefined): { [uniqueId: string]: ISMAPICompatibility } {
+    return getSMAPIAttributes(mod).smapiCompatibility || {};
+}
+
+function getManifestProblems(mod: types.IMod | undefined): ISMAPIManifestProblem[] {
+    return getSMAPIAttributes(mod).smapiManifestProblems || [];
+}
+
+/**
+ * Build the attributes to save for the manifests found in a mod.
+ *
+ * @param {ISMAPIManifest[]} manifests - The manifests, as read from the mod files.
+ * @returns {ISMAPIModAttributes} Normalised manifests keyed by UniqueID, with the current schema version.
+ *
+ */
+function manifestAttributes(manifests: ISMAPIManifest[]): ISMAPIModAttributes {
+    const smapiManifests: { [uniqueId: string]: ISMAPIManifest } = {};
+    for (const raw of manifests) {
+        const manifest = new SMAPIManifestClass(raw);
+        // Without these SMAPI won't load the mod, so there's nothing useful to save.
+        if (!!manifest.UniqueID && !!manifest.Version) smapiManifests[manifest.UniqueID] = manifest.toJSON();
+    }
+    return {
+        smapiAttributesVersion: SMAPI_ATTRIBUTES_VERSION,
+        smapiManifests: Object.keys(smapiManifests).length ? smapiManifests : undefined,
+    };
+}
+
+function isValidManifest(filePath: string): boolean {
+    const segments = filePath.toLowerCase().split(path.sep);
+    const isManifestFile = segments[segments.length - 1] === MANIFEST_FILE;
+    const isLocale = segments.includes('locale');
+    return isManifestFile && !isLocale;
+}
+
+/**
+ * Read a manifest.json file. Manifests are often not valid JSON, so relaxed-json is used to improve our chances.
+ *
+ * @param {string} manifestPath - The full path to the manifest.
+ * @returns {Promise<IManifestReadResult>} The manifest, which is empty if it couldn't be read.
+ *
+ */
+async function readManifestFile(manifestPath: string): Promise<IManifestReadResult> {
+    let file: string;
+    try {
+        file = await fs.readFileBOM(manifestPath, 'utf8');
+    }
+    catch(err) {
+        log('error', 'Unable to read manifest.json file', manifestPath);
+        return { manifest: {}, repaired: false, error: err.message };
+    }
+    try {
+        return { manifest: JSON.parse(file), repaired: false };
+    }
+    catch(err) {
+        // Not valid JSON, see if relaxed-json can make sense of it.
+    }
+    try {
+        const manifest: ISMAPIManifest = rjson.parse(file);
+        return { manifest, repaired: true };
+    }
+    catch(err) {
+        log('error', 'Unable to parse manifest.json file', manifestPath);
+        return { manifest: {}, repaired: false, error: err.message };
+    }
+}
+
+async function readManifest(manifestPath: string): Promise<ISMAPIManifest> {
+    return (await readManifestFile(manifestPath)).manifest;
+}
+
+// List the manifest files in a folder and its subfolders.
+async function findManifestFiles(folder: string): Promise<string[]> {
+    const result: string[] = [];
+    const entries: string[] = await fs.readdirAsync(folder);
+    for (const entry of entries) {
+        const entryPath = path.join(folder, entry);
+        const stats: fs.Stats = await fs.statAsync(entryPath);
+        if (stats.isDirectory()) result.push(...await findManifestFiles(entryPath));
+        else if (isValidManifest(entryPath)) result.push(entryPath);
+    }
+    return result;
+}
+
+// Older versions of the extension only saved the UniqueID and version.
+function legacyManifests(mod: types.IMod): ISMAPIManifest[] {
+    const legacy = (mod.attributes || {}) as ILegacySMAPIAttributes;
+    return [...(legacy.smapiIDs || []), ...(legacy.modData || [])]
+        .filter(data => !!data?.id)
+        .map(data => ({ UniqueID: data.id, Version: data.version }));
+}
+
+async function migrateMod(stagingFolder: string, mod: types.IMod): Promise<ISMAPIModAttributes & ILegacySMAPIAttributes> {
+    let manifests: ISMAPIManifest[] = [];
+    try {
+        const manifestFiles = await findManifestFiles(path.join(stagingFolder, mod.installationPath));
+        manifests = await Promise.all(manifestFiles.map(readManifest));
+    }
+    catch(err) {
+        log('warn', 'Unable to read the manifests of a staged SMAPI mod', { modId: mod.id, error: err.message });
+    }
+
+    const attributes: ISMAPIModAttributes & ILegacySMAPIAttributes = manifestAttributes(manifests);
+    // Keep what we already know if the files couldn't be read.
+    if (!attributes.smapiManifests) {
+        const existing = getManifests(mod);
+        const fallback = Object.keys(existing).length ? Object.values(existing) : legacyManifests(mod);
+        attributes.smapiManifests = manifestAttributes(fallback).smapiManifests;
+    }
+    if (!!(mod.attributes as ILegacySMAPIAttributes)?.smapiIDs) attributes.smapiIDs = undefined;
+    if (!!(mod.attributes as ILegacySMAPIAttributes)?.modData) attributes.modData = undefined;
+    return attributes;
+}
+
+async function runMigration(api: types.IExtensionApi) {
+    const state: types.IState = api.getState();
+    const stagingFolder: string = selectors.installPathForGame(state, GAME_ID);
+    const mods: { [id: string]: types.IMod } = state.persistent.mods?.[GAME_ID] || {};
+    // SMAPI itself includes the bundled mods, these are handled separately.
+    const outdated = Object.values(mods).filter(mod => mod.state === 'installed'
+        && mod.type !== 'SMAPI'
+        && !!mod.installationPath
+        && (getSMAPIAttributes(mod).smapiAttributesVersion || 0) < SMAPI_ATTRIBUTES_VERSION);
+    if (!outdated.length || !stagingFolder) return;
+
+    log('info', 'Migrating SMAPI attributes for installed mods', { count: outdated.length, version: SMAPI_ATTRIBUTES_VERSION });
+    const updates = [];
+    for (const mod of outdated) {
+        updates.push(actions.setModAttributes(GAME_ID, mod.id, await migrateMod(stagingFolder, mod)));
+    }
+    util.batchDispatch(api.store, updates);
+}
+
+/**
+ * Rebuild the SMAPI attributes of mods installed by older versions of the extension, by reading the manifest.json files from the staging folder.
+ * Each mod is only migrated once for each version of the schema.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ *
+ */
+async function migrateSMAPIAttributes(api: types.IExtensionApi): Promise<void> {
+    if (!migration) {
+        migration = runMigration(api)
+            .catch(err => log('error', 'Failed to migrate SMAPI attributes', err))
+            .finally(() => migration = undefined);
+    }
+    return migration;
+}
+
+export {
+    IManifestReadResult, SMAPI_ATTRIBUTES_VERSION,
+    getSMAPIAttributes, getManifests, hasManifests, getUniqueIds, findManifest, getUpdates, getCompatibility, getManifestProblems,
+    manifestAttributes, isValidManifest, findManifestFiles, readManifestFile, readManifest, migrateSMAPIAttributes
+};
@@ -0,0 +1,110 @@
+import * as path from 'path';
+import { types, util } from 'vortex-api';
+import { getManifests } from '../smapi-attributes';
+import { ICrashSuspect } from '../types/log-types';
+import { getModLookup, parseSMAPILog } from './parser';
+
+// e.g.    at StardewValley.Object.draw_PatchedBy<Pathoschild.ContentPatcher,spacechase0.JsonAssets>(SpriteBatch b)
+const PTRN_PATCHED_BY = /_PatchedBy<([^>]+)>/g;
+// e.g.    at ContentPatcher.Framework.Patches.Method() in C:\source\Patch.cs:line 20
+const PTRN_STACK_FRAME = /^\s*at\s+(?:DMD<[^>]*>\s*)?([\w.`<>+,]+?)(?:\[[^\]]*\])?\(/;
+
+// Weights used to score the suspects.
+const SCORE_TOP_FRAME = 5;
+const SCORE_FRAME = 2;
+const SCORE_PATCH = 3;
+const SCORE_ERROR_SOURCE = 1;
+
+interface IAssemblyOwner {
+    uniqueId: string;
+    name: string;
+    vortexModId: string;
+}
+
+function getAssemblyOwners(mods: { [id: string]: types.IMod }): { [assembly: string]: IAssemblyOwner } {
+    // Mod code runs from the EntryDll, so the assembly name is usually the root of its namespaces.
+    const owners: { [assembly: string]: IAssemblyOwner } = {};
+    for (const mod of Object.values(mods || {})) {
+        const manifests = getManifests(mod);
+        for (const [uniqueId, manifest] of Object.entries(manifests)) {
+            if (!manifest?.EntryDll) continue;
+            const assembly = path.basename(manifest.EntryDll, path.extname(manifest.EntryDll)).toLowerCase();
+            owners[assembly] = { uniqueId, name: manifest.Name || uniqueId, vortexModId: mod.id };
+        }
+    }
+    return owners;
+}
+
+/**
+ * Analyse the stack traces in a SMAPI crash log and work out which installed mods are most likely to be responsible.
+ *
+ * @param {string} logText - The contents of SMAPI-crash.txt
+ * @param {{ [id: string]: types.IMod }} mods - Installed mods for Stardew Valley.
+ * @returns {ICrashSuspect[]} The suspected mods, most likely first.
+ *
+ */
+function diagnoseCrash(logText: string, mods: { [id: string]: types.IMod }): ICrashSuspect[] {
+    const smapiLog = parseSMAPILog(logText);
+    const owners = getAssemblyOwners(mods);
+    const resolve = getModLookup(mods);
+    const suspects: { [uniqueId: string]: ICrashSuspect } = {};
+
+    const addSuspect = (uniqueId: string, name: string, vortexModId: string | undefined, score: number, reason: string) => {
+        const key = uniqueId.toLowerCase();
+        const suspect = suspects[key] || { uniqueId, name, vortexModId, score: 0, reasons: [] };
+        suspect.score += score;
+        if (!suspect.reasons.includes(reason)) suspect.reasons.push(reason);
+        suspects[key] = suspect;
+    }
+
+    const findOwner = (frame: string): IAssemblyOwner | undefined => {
+        // Check each namespace prefix, longest first, e.g. "Pathoschild.Stardew.LookupAnything" then "Pathoschild.Stardew".
+        const segments = frame.toLowerCase().split('.');
+        for (let i = segments.length - 1; i > 0; i--) {
+            const owner = owners[segments.slice(0, i).join('.')];
+            if (owner) return owner;
+        }
+        return undefined;
+    }
+
+    for (const message of smapiLog.messages) {
+        if (message.level !== 'ERROR' && message.level !== 'ALERT') continue;
+        const lines = message.text.split('\n');
+        const frames = lines.filter(l => PTRN_STACK_FRAME.test(l));
+        if (!frames.length) continue;
+
+        // The mod which logged the error is a (weak) suspect too.
+        const source = resolve(message.source);
+        if (source?.uniqueId) addSuspect(source.uniqueId, message.source, source.vortexModId, SCORE_ERROR_SOURCE, `Logged an error: ${lines[0]}`);
+
+        frames.forEach((frame, idx) => {
+            const method = PTRN_STACK_FRAME.exec(frame)[1];
+            const owner = findOwner(method);
+            if (owner) {
+                addSuspect(owner.uniqueId, owner.name, owner.vortexModId, idx === 0 ? SCORE_TOP_FRAME : SCORE_FRAME,
+                    idx === 0 ? `Its code threw the exception (${method})` : `Its code appears in the stack trace (${method})`);
+            }
+
+            // Harmony patches are listed in the patched method's name.
+            let patch: RegExpExecArray | null;
+            PTRN_PATCHED_BY.lastIndex = 0;
+            while ((patch = PTRN_PATCHED_BY.exec(frame)) !== null) {
+                for (const uniqueId of patch[1].split(',').map(id => id.trim()).filter(id => !!id)) {
+                    const link = resolve(uniqueId);
+                    addSuspect(link?.uniqueId || uniqueId, uniqueId, link?.vortexModId, SCORE_PATCH, `Patches a method in the stack trace (${method})`);
+                }
+            }
+        });
+    }
+
+    // Use the Vortex mod name for display where we have it.
+    return Object.values(suspects)
+        .map(s => {
+            const mod = s.vortexModId ? mods[s.vortexModId] : undefined;
+            if (mod) s.vortexModName = util.renderModName(mod);
+            return s;
+        })
+        .sort((a, b) => b.score - a.score);
+}
+
+export { diagnoseCrash };
@@ -0,0 +1,50 @@
+import * as path from 'path';
+import { fs, util } from 'vortex-api';
+
+const SMAPI_LOG_CRASH = 'SMAPI-crash.txt';
+const SMAPI_LOG_LATEST = 'SMAPI-latest.txt';
+
+interface ISMAPILogFile {
+    fileName: string;
+    filePath: string;
+    modified: Date;
+    isCrash: boolean;
+}
+
+// SMAPI writes its logs to %appdata%/StardewValley/ErrorLogs on all platforms.
+const getLogFolder = (): string => path.join(util.getVortexPath('appData'), 'stardewvalley', 'errorlogs');
+
+/**
+ * List the SMAPI log files available, with the crash log first, then the latest log, then any older logs by date.
+ *
+ * @returns {Promise<ISMAPILogFile[]>} The log files found, or an empty array if there are none.
+ *
+ */
+async function getLogFiles(): Promise<ISMAPILogFile[]> {
+    const logFolder = getLogFolder();
+    const fileNames: string[] = await fs.readdirAsync(logFolder).catch(() => []);
+    const logFiles: ISMAPILogFile[] = [];
+    for (const fileName of fileNames.filter(f => path.extname(f).toLowerCase() === '.txt')) {
+        const filePath = path.join(logFolder, fileName);
+        try {
+            const stats: fs.Stats = await fs.statAsync(filePath);
+            if (!stats.isFile()) continue;
+            logFiles.push({ fileName, filePath, modified: new Date(stats.mtime), isCrash: fileName.toLowerCase() === SMAPI_LOG_CRASH.toLowerCase() });
+        }
+        catch(err) {
+            continue;
+        }
+    }
+
+    const priority = (file: ISMAPILogFile): number => file.isCrash
+        ? 0
+        : file.fileName.toLowerCase() === SMAPI_LOG_LATEST.toLowerCase() ? 1 : 2;
+
+    return logFiles.sort((a, b) => (priority(a) - priority(b)) || (b.modified.getTime() - a.modified.getTime()));
+}
+
+async function readLogFile(fileName: string): Promise<string> {
+    return fs.readFileAsync(path.join(getLogFolder(), fileName), { encoding: 'utf-8' });
+}
+
+export { SMAPI_LOG_CRASH, SMAPI_LOG_LATEST, ISMAPILogFile, getLogFolder, getLogFiles, readLogFile };
@@ -0,0 +1,254 @@
+import { types, util } from 'vortex-api';
+import { getManifests } from '../smapi-attributes';
+import { ILogModLink, ISMAPILog, ISMAPILogMessage, ISMAPILogMod, ISMAPILogSkippedMod, ISMAPILogSourceSummary, SMAPILogLevel } from '../types/log-types';
+
+// e.g. [12:34:56 INFO  SMAPI] Message or [12:34:56 INFO screen_1 Content Patcher] Message
+const PTRN_MESSAGE = /^\[(\d{2}:\d{2}:\d{2})\s+(TRACE|DEBUG|INFO|WARN|ERROR|ALERT)\s+(?:screen_(\d+)\s+)?([^\]]+?)\s*\]\s?(.*)$/;
+// e.g. SMAPI 3.18.2 with Stardew Valley 1.5.6 build 22018 on Microsoft Windows 10 Pro
+const PTRN_HEADER = /^SMAPI (\S+) with Stardew Valley (\S+)(?: build (\S+))? on (.+)$/;
+const PTRN_LOG_STARTED = /^Log started at (.+)$/;
+const PTRN_MODS_PATH = /^Mods go here: (.+)$/;
+const PTRN_MOD_LIST = /^Loaded (\d+) (mods|content packs):?$/;
+// e.g.    Content Patcher 1.28.0 by Pathoschild | Loads content packs...
+const PTRN_MOD_ENTRY = /^(.+?) (\d[^\s]*)(?: by (.+))?$/;
+// e.g.       - Some Mod 1.0.0 because it requires mods which aren't installed (Pathoschild.ContentPatcher).
+const PTRN_SKIPPED_MOD = /^\s*- (.+?) because (.+?)\.?$/;
+const PTRN_NAME_VERSION = /^(.+?) (\d[^\s]*)$/;
+
+/**
+ * Parse the text of a SMAPI log file into typed records.
+ *
+ * @param {string} logText - The raw contents of SMAPI-latest.txt or SMAPI-crash.txt
+ * @returns {ISMAPILog} The parsed log.
+ *
+ */
+function parseSMAPILog(logText: string): ISMAPILog {
+    const result: ISMAPILog = { isValid: false, messages: [], mods: [], skippedMods: [] };
+    const lines = (logText || '').split(/\r?\n/);
+
+    // Merge continuation lines (stack traces, etc) into the message they belong to.
+    lines.forEach((line, idx) => {
+        const message = parseLogMessage(line, idx + 1);
+        if (message) result.messages.push(message);
+        else if (result.messages.length && line !== '') {
+            result.messages[result.messages.length - 1].text += `\n${line}`;
+        }
+    });
+
+    result.isValid = !!result.messages.length;
+
+    // Tracks which mod list (if any) the current SMAPI messages belong to.
+    let currentList: 'mods' | 'content packs' | undefined = undefined;
+
+    for (const message of result.messages) {
+        if (message.source !== 'SMAPI') {
+            currentList = undefined;
+            continue;
+        }
+        const text = message.text;
+
+        if (currentList !== undefined) {
+            if (text.startsWith('   ') && message.level === 'INFO') {
+                const mod = parseModEntry(text.trim(), currentList === 'content packs');
+                if (mod) result.mods.push(mod);
+                continue;
+            }
+            currentList = undefined;
+        }
+
+        const header = PTRN_HEADER.exec(text);
+        if (header) {
+            [ , result.smapiVersion, result.gameVersion, result.gameBuild, result.os ] = header;
+            continue;
+        }
+
+        const started = PTRN_LOG_STARTED.exec(text);
+        if (started) {
+            result.logStarted = started[1];
+            continue;
+        }
+
+        const modsPath = PTRN_MODS_PATH.exec(text);
+        if (modsPath) {
+            result.modsPath = modsPath[1];
+            continue;
+        }
+
+        const list = PTRN_MOD_LIST.exec(text);
+        if (list) {
+            currentList = list[2] as 'mods' | 'content packs';
+            continue;
+        }
+
+        const skipped = parseSkippedMod(message);
+        if (skipped) result.skippedMods.push(skipped);
+    }
+
+    return result;
+}
+
+/**
+ * Parse a single line of a SMAPI log.
+ *
+ * @param {string} line - The line of text.
+ * @param {number} lineNumber - The line number (1-based) in the file.
+ * @returns {ISMAPILogMessage | undefined} The message, or undefined if this isn't the start of a message.
+ *
+ */
+function parseLogMessage(line: string, lineNumber: number): ISMAPILogMessage | undefined {
+    const match = PTRN_MESSAGE.exec(line);
+    if (!match) return undefined;
+    const [ , time, level, screen, source, text ] = match;
+    const message: ISMAPILogMessage = { line: lineNumber, time, level: level as SMAPILogLevel, source, text };
+    if (screen !== undefined) message.screen = parseInt(screen);
+    return message;
+}
+
+/**
+ * Check if a message is SMAPI reporting that it skipped a mod.
+ *
+ * @param {ISMAPILogMessage} message - A parsed log message.
+ * @returns {ISMAPILogSkippedMod | undefined} The skipped mod, or undefined if the message is about something else.
+ *
+ */
+function parseSkippedMod(message: ISMAPILogMessage): ISMAPILogSkippedMod | undefined {
+    if (message.source !== 'SMAPI' || (message.level !== 'ERROR' && message.level !== 'WARN')) return undefined;
+    const skipped = PTRN_SKIPPED_MOD.exec(message.text);
+    if (!skipped) return undefined;
+    const nameVersion = PTRN_NAME_VERSION.exec(skipped[1]);
+    return {
+        name: nameVersion ? nameVersion[1] : skipped[1],
+        version: nameVersion ? nameVersion[2] : undefined,
+        reason: skipped[2],
+    };
+}
+
+function parseModEntry(entry: string, isContentPack: boolean): ISMAPILogMod | undefined {
+    const [ head, ...details ] = entry.split(' | ');
+    const match = PTRN_MOD_ENTRY.exec(head);
+    if (!match) return undefined;
+    const mod: ISMAPILogMod = { name: match[1], version: match[2], author: match[3], isContentPack };
+    // Content packs list the mod they're for before the description.
+    if (isContentPack && details.length && details[0].startsWith('for ')) {
+        mod.contentPackFor = details.shift().substring(4);
+    }
+    if (details.length) mod.description = details.join(' | ');
+    return mod;
+}
+
+/**
+ * Link the records in a parsed log to the installed Vortex mods, using the manifests saved on each mod.
+ *
+ * @param {ISMAPILog} smapiLog - The parsed log, this will be updated in place.
+ * @param {{ [id: string]: types.IMod }} mods - Installed mods for Stardew Valley.
+ * @returns {ISMAPILog} The same log, with uniqueId and vortexModId populated where possible.
+ *
+ */
+function linkLogToMods(smapiLog: ISMAPILog, mods: { [id: string]: types.IMod }): ISMAPILog {
+    const resolve = getModLookup(mods);
+
+    const apply = (record: ILogModLink, name: string) => {
+        const link = resolve(name);
+        if (!link) return;
+        record.uniqueId = link.uniqueId;
+        record.vortexModId = link.vortexModId;
+    }
+
+    smapiLog.messages.forEach(m => apply(m, m.source));
+    smapiLog.mods.forEach(m => apply(m, m.name));
+    smapiLog.skippedMods.forEach(m => apply(m, m.name));
+
+    return smapiLog;
+}
+
+/**
+ * Build a lookup of installed SMAPI mods by name and UniqueID, using the manifests saved on each mod.
+ *
+ * @param {{ [id: string]: types.IMod }} mods - Installed mods for Stardew Valley.
+ * @returns {(name: string) => ILogModLink | undefined} A function which resolves a mod name (as written in the log) to the installed mod.
+ *
+ */
+function getModLookup(mods: { [id: string]: types.IMod }): (name: string) => ILogModLink | undefined {
+    const byUniqueId: { [id: string]: ILogModLink } = {};
+    const byName: { [name: string]: ILogModLink } = {};
+
+    for (const mod of Object.values(mods || {})) {
+        const manifests = getManifests(mod);
+        for (const [uniqueId, manifest] of Object.entries(manifests)) {
+            const link: ILogModLink = { uniqueId, vortexModId: mod.id };
+            byUniqueId[uniqueId.toLowerCase()] = link;
+            if (!!manifest?.Name) byName[manifest.Name.toLowerCase()] = link;
+        }
+    }
+
+    // Log sources are the mod names, but some logs (and older SMAPI versions) use the UniqueID.
+    return (name: string): ILogModLink | undefined => {
+        if (!name) return undefined;
+        const key = name.toLowerCase();
+        return byName[key] || byUniqueId[key];
+    }
+}
+
+/**
+ * Count the warnings, errors and skipped mods in a log by the mod responsible.
+ *
+ * @param {ISMAPILog} smapiLog - A parsed log, ideally already passed through linkLogToMods.
+ * @param {{ [id: string]: types.IMod }} mods - Installed mods for Stardew Valley, used to get the Vortex mod names.
+ * @returns {ISMAPILogSourceSummary[]} Summaries for each source with at least one problem, worst first.
+ *
+ */
+function summariseLog(smapiLog: ISMAPILog, mods: { [id: string]: types.IMod }): ISMAPILogSourceSummary[] {
+    const summaries: { [source: string]: ISMAPILogSourceSummary } = {};
+
+    const getSummary = (source: string, link: ILogModLink): ISMAPILogSourceSummary => {
+        if (!summaries[source]) {
+            const vortexMod = link.vortexModId ? mods?.[link.vortexModId] : undefined;
+            summaries[source] = {
+                source,
+                uniqueId: link.uniqueId,
+                vortexModId: link.vortexModId,
+                vortexModName: vortexMod ? util.renderModName(vortexMod) : undefined,
+                warnings: 0,
+                errors: 0,
+                skipped: 0
+            };
+        }
+        return summaries[source];
+    }
+
+    for (const message of smapiLog.messages) {
+        if (message.level === 'WARN') getSummary(message.source, message).warnings++;
+        else if (message.level === 'ERROR' || message.level === 'ALERT') getSummary(message.source, message).errors++;
+    }
+
+    for (const skipped of smapiLog.skippedMods) getSummary(skipped.name, skipped).skipped++;
+
+    return Object.values(summaries)
+        .sort((a, b) => (b.errors - a.errors) || (b.skipped - a.skipped) || (b.warnings - a.warnings));
+}
+
+/**
+ * Describe a source summary in a single line, e.g. "3 errors from Mod X (installed by Vortex)".
+ *
+ * @param {ISMAPILogSourceSummary} summary - The summary to describe.
+ * @returns {string} A human readable description.
+ *
+ */
+function describeSummary(summary: ISMAPILogSourceSummary): string {
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+    const parts: string[] = [];
+    if (summary.errors) parts.push(plural(summary.errors, 'error'));
+    if (summary.warnings) parts.push(plural(summary.warnings, 'warning'));
+    let description = `${parts.join(' and ')} from ${summary.source}`;
+    if (summary.skipped) description = parts.length
+        ? `${description} (skipped by SMAPI)`
+        : `${summary.source} was skipped by SMAPI`;
+    if (summary.vortexModId) {
+        description += summary.vortexModName && summary.vortexModName !== summary.source
+            ? ` (installed by Vortex as "${summary.vortexModName}")`
+            : ' (installed by Vortex)';
+    }
+    return description;
+}
+
+export { parseSMAPILog, parseLogMessage, parseSkippedMod, linkLogToMods, getModLookup, summariseLog, describeSummary };
@@ -0,0 +1,120 @@
+import * as os from 'os';
+import { log } from 'vortex-api';
+
+/**
+ * Identifying details of the current user, which will be removed from the log.
+ *
+ * @interface IScrubIdentity
+ */
+interface IScrubIdentity {
+    userName?: string;
+    homeDir?: string;
+    computerName?: string;
+}
+
+interface IScrubChange {
+    /**Line number (1-based) of the changed line. */
+    line: number;
+    original: string;
+    scrubbed: string;
+}
+
+interface IScrubResult {
+    text: string;
+    changes: IScrubChange[];
+}
+
+// Short names (e.g. "a" or "pc") would match all over the log, so only replace names of at least this length.
+const MIN_TOKEN_LENGTH = 3;
+
+const escapeRegExp = (input: string): string => input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function getCurrentIdentity(): IScrubIdentity {
+    const identity: IScrubIdentity = { homeDir: os.homedir(), computerName: os.hostname() };
+    try {
+        identity.userName = os.userInfo().username;
+    }
+    catch(err) {
+        log('debug', 'Unable to get the current username to scrub SMAPI logs', err);
+        identity.userName = process.env.USERNAME || process.env.USER;
+    }
+    return identity;
+}
+
+function getRules(identity: IScrubIdentity): { pattern: RegExp, replacement: string }[] {
+    // Home folders that don't follow the usual structure (e.g. a redirected profile), matching either kind of slash.
+    const homeDir = identity.homeDir && identity.homeDir.length >= MIN_TOKEN_LENGTH
+        ? escapeRegExp(identity.homeDir).replace(/\\\\/g, '[\\\\/]+')
+        : undefined;
+
+    const rules: { pattern: RegExp, replacement: string }[] = [];
+    // The app data folders come first as they are more specific than the home folder they're in.
+    if (homeDir) {
+        rules.push(
+            { pattern: new RegExp(`${homeDir}[\\\\/]+AppData[\\\\/]+Roaming`, 'gi'), replacement: '%appdata%' },
+            { pattern: new RegExp(`${homeDir}[\\\\/]+AppData[\\\\/]+Local`, 'gi'), replacement: '%localappdata%' },
+        );
+    }
+    rules.push(
+        // Windows profile folders.
+        { pattern: /[a-z]:[\\/]+Users[\\/]+[^\\/\r\n]+[\\/]+AppData[\\/]+Roaming/gi, replacement: '%appdata%' },
+        { pattern: /[a-z]:[\\/]+Users[\\/]+[^\\/\r\n]+[\\/]+AppData[\\/]+Local/gi, replacement: '%localappdata%' },
+    );
+    if (homeDir) rules.push({ pattern: new RegExp(homeDir, 'gi'), replacement: '~' });
+    rules.push(
+        { pattern: /[a-z]:[\\/]+Users[\\/]+[^\\/\r\n:'"]+/gi,replacement: '~' },
+        // Linux and MacOS home folders.
+        { pattern: /\/home\/[^\/\s'"]+/g, replacement: '~' },
+        { pattern: /\/Users\/[^\/\s'"]+/g, replacement: '~' },
+        // SteamID64s and the Steam user data folders (which use the account ID).
+        { pattern: /\b7656119\d{10}\b/g, replacement: '<steam id>' },
+        { pattern: /([\\/]userdata[\\/])\d+/gi, replacement: '$1<steam id>' },
+    );
+
+    if (identity.userName && identity.userName.length >= MIN_TOKEN_LENGTH) {
+        rules.push({ pattern: new RegExp(`\\b${escapeRegExp(identity.userName)}\\b`, 'gi'), replacement: '<user>' });
+    }
+    if (identity.computerName && identity.computerName.length >= MIN_TOKEN_LENGTH) {
+        rules.push({ pattern: new RegExp(`\\b${escapeRegExp(identity.computerName)}\\b`, 'gi'), replacement: '<computer>' });
+    }
+
+    return rules;
+}
+
+/**
+ * Remove personal information from a SMAPI log before it is shared. User folders are replaced with placeholders like %appdata% and ~,
+ * and usernames, computer names and Steam IDs are removed.
+ *
+ * @param {string} logText - The raw log text.
+ * @param {IScrubIdentity} [identity] - The details to remove, defaults to the current user.
+ * @returns {IScrubResult} The scrubbed text and a list of the lines that were changed.
+ *
+ */
+function scrubSMAPILog(logText: string, identity: IScrubIdentity = getCurrentIdentity()): IScrubResult {
+    const rules = getRules(identity);
+    const changes: IScrubChange[] = [];
+    // Scrub line by line so the changes can be shown to the user.
+    const lines = logText.split('\n').map((original, idx) => {
+        const scrubbed = rules.reduce((prev, rule) => prev.replace(rule.pattern, rule.replacement), original);
+        if (scrubbed !== original) changes.push({ line: idx + 1, original, scrubbed });
+        return scrubbed;
+    });
+
+    return { text: lines.join('\n'), changes };
+}
+
+/**
+ * Render the changes made by scrubSMAPILog as a simple line diff.
+ *
+ * @param {IScrubChange[]} changes - The changes to render.
+ * @param {number} [limit] - The maximum number of changes to include.
+ * @returns {string} The diff text.
+ *
+ */
+function renderScrubDiff(changes: IScrubChange[], limit: number = 200): string {
+    const diff = changes.slice(0, limit).map(c => `Line ${c.line}:\n- ${c.original.trim()}\n+ ${c.scrubbed.trim()}`);
+    if (changes.length > limit) diff.push(`...and ${changes.length - limit} more lines.`);
+    return diff.join('\n\n');
+}
+
+export { IScrubIdentity, IScrubChange, IScrubResult, scrubSMAPILog, renderScrubDiff };
@@ -0,0 +1,196 @@
+import * as path from 'path';
+import { fs, log, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import onDiagnoseCrash, { diagnoseFailed } from '../actions/diagnoseCrash';
+import { ILogModLink, ISMAPILogMessage, ISMAPISessionSummary } from '../types/log-types';
+import { getLogFolder, SMAPI_LOG_CRASH, SMAPI_LOG_LATEST } from './files';
+import { getModLookup, parseLogMessage, parseSkippedMod } from './parser';
+
+// How often to check the log for new lines.
+const POLL_INTERVAL_MS = 2000;
+// SMAPI may take a moment to replace the previous log when it starts up.
+const MTIME_TOLERANCE_MS = 5000;
+
+/**
+ * Follows SMAPI-latest.txt while the game is running, raising notifications for errors and keeping a summary of the session.
+ *
+ * @class SMAPILogWatcher
+ */
+class SMAPILogWatcher {
+    private api: types.IExtensionApi;
+    private timer: NodeJS.Timeout | undefined;
+    private offset: number = 0;
+    private partialLine: string = '';
+    private lineNumber: number = 0;
+    private lastMessage: ISMAPILogMessage | undefined;
+    private polling: Promise<void> | undefined;
+    private resolveMod: (name: string) => ILogModLink | undefined = () => undefined;
+    public session: ISMAPISessionSummary | undefined;
+
+    constructor(api: types.IExtensionApi) {
+        this.api = api;
+    }
+
+    public get isRunning(): boolean {
+        return this.timer !== undefined;
+    }
+
+    public start() {
+        if (this.isRunning) return;
+        log('debug', 'Watching SMAPI log for the current session');
+        this.offset = 0;
+        this.partialLine = '';
+        this.lineNumber = 0;
+        this.lastMessage = undefined;
+        this.session = { started: Date.now(), crashed: false, errors: {}, skippedMods: [] };
+        const mods: { [id: string]: types.IMod } = this.api.getState().persistent.mods?.[GAME_ID] || {};
+        this.resolveMod = getModLookup(mods);
+        this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    }
+
+    public async stop(): Promise<ISMAPISessionSummary | undefined> {
+        if (!this.isRunning) return this.session;
+        clearInterval(this.timer);
+        this.timer = undefined;
+        // Pick up anything written since the last check.
+        await this.poll();
+        this.flushMessage();
+        this.session.ended = Date.now();
+        this.session.crashed = await this.hasCrashed();
+        this.notifySummary();
+        return this.session;
+    }
+
+    private poll(): Promise<void> {
+        // Don't allow overlapping reads if the disk is slow.
+        if (!this.polling) this.polling = this.readNewLines().finally(() => this.polling = undefined);
+        return this.polling;
+    }
+
+    private async readNewLines() {
+        const logPath = path.join(getLogFolder(), SMAPI_LOG_LATEST);
+        try {
+            const stats: fs.Stats = await fs.statAsync(logPath);
+            // Still the log from a previous session.
+            if (stats.mtime.getTime() < this.session.started - MTIME_TOLERANCE_MS) return;
+            // The log was replaced, start again from the top.
+            if (stats.size < this.offset) {
+                this.offset = 0;
+                this.partialLine = '';
+                this.lineNumber = 0;
+            }
+            if (stats.size === this.offset) return;
+
+            const length = stats.size - this.offset;
+            const fd: number = await fs.openAsync(logPath, 'r');
+            try {
+                const { bytesRead, buffer } = await fs.readAsync(fd, Buffer.alloc(length), 0, length, this.offset);
+                this.offset += bytesRead;
+                this.handleText((buffer as Buffer).toString('utf8', 0, bytesRead));
+            }
+            finally {
+                await fs.closeAsync(fd);
+            }
+        }
+        catch(err) {
+            if (err.code !== 'ENOENT') log('warn', 'Unable to read SMAPI log', err);
+        }
+    }
+
+    private handleText(text: string) {
+        const lines = (this.partialLine + text).split(/\r?\n/);
+        // The last line may not have been fully written yet.
+        this.partialLine = lines.pop();
+        for (const line of lines) {
+            this.lineNumber++;
+            const message = parseLogMessage(line, this.lineNumber);
+            if (message) {
+                this.flushMessage();
+                this.lastMessage = message;
+            }
+            else if (this.lastMessage && line !== '') this.lastMessage.text += `\n${line}`;
+        }
+    }
+
+    // Messages may span multiple lines, so they are only processed once the next message starts.
+    private flushMessage() {
+        const message = this.lastMessage;
+        this.lastMessage = undefined;
+        if (!message) return;
+
+        const skipped = parseSkippedMod(message);
+        if (skipped) {
+            Object.assign(skipped, this.resolveMod(skipped.name));
+            this.session.skippedMods.push(skipped);
+            this.notify(skipped.name, skipped, `${skipped.name} failed to load`, `SMAPI skipped this mod because ${skipped.reason}.`);
+            return;
+        }
+
+        if (message.level !== 'ERROR' && message.level !== 'ALERT') return;
+        const link = this.resolveMod(message.source) || {};
+        const errors = this.session.errors[message.source] || { ...link, count: 0 };
+        errors.count++;
+        this.session.errors[message.source] = errors;
+        // SMAPI reports its own problems too, but those are usually about a specific mod.
+        if (message.source === 'SMAPI' && message.level === 'ERROR') return;
+        const title = errors.count === 1 ? `${message.source} reported an error` : `${message.source} reported ${errors.count} errors`;
+        this.notify(message.source, link, title, message.text.split('\n')[0]);
+    }
+
+    private notify(source: string, link: ILogModLink, title: string, message: string) {
+        const mod: types.IMod | undefined = link.vortexModId
+            ? this.api.getState().persistent.mods?.[GAME_ID]?.[link.vortexModId]
+            : undefined;
+        this.api.sendNotification({
+            // Reuse the notification for each mod, so repeated errors don't flood the UI.
+            id: `sdv-smapi-live-${source}`,
+            type: 'warning',
+            title,
+            message: mod ? `${message} (installed by Vortex as "${util.renderModName(mod)}")` : message,
+            group: 'sdv-smapi-live',
+        });
+    }
+
+    private async hasCrashed(): Promise<boolean> {
+        try {
+            const stats: fs.Stats = await fs.statAsync(path.join(getLogFolder(), SMAPI_LOG_CRASH));
+            return stats.mtime.getTime() >= this.session.started;
+        }
+        catch(err) {
+            return false;
+        }
+    }
+
+    private notifySummary() {
+        const session = this.session;
+        const sources = Object.keys(session.errors);
+        const total = sources.reduce((prev, cur) => prev + session.errors[cur].count, 0);
+        if (!session.crashed && !total && !session.skippedMods.length) return;
+
+        const details = sources
+            .sort((a, b) => session.errors[b].count - session.errors[a].count)
+            .map(s => `${s}: ${session.errors[s].count} error(s)`);
+        if (session.skippedMods.length) details.push(`Skipped mods: ${session.skippedMods.map(s => s.name).join(', ')}`);
+
+        this.api.sendNotification({
+            id: 'sdv-smapi-session-summary',
+            type: session.crashed ? 'error' : 'warning',
+            title: session.crashed ? 'Stardew Valley crashed' : 'SMAPI reported problems during your last session',
+            message: `${total} error(s) from ${sources.length} source(s).`,
+            actions: [
+                {
+                    title: 'More',
+                    action: () => this.api.showDialog(session.crashed ? 'error' : 'info', 'SMAPI session summary', {
+                        text: session.crashed
+                            ? 'The game crashed during this session. You can find more details in the SMAPI log.'
+                            : 'SMAPI reported the following problems during this session.',
+                        message: details.join('\n')
+                    }, [ { label: 'Close' } ])
+                },
+                ...(session.crashed ? [{ title: 'Diagnose', action: () => onDiagnoseCrash(this.api).catch(err => diagnoseFailed(this.api, err)) }] : [])
+            ]
+        });
+    }
+}
+
+export default SMAPILogWatcher;
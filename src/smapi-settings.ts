@@ -0,0 +1,118 @@
+import * as path from 'path';
+import * as rjson from 'relaxed-json';
+import { fs, log, selectors, types } from 'vortex-api';
+import { GAME_ID } from './common';
+import { ISMAPISettings } from './types/state-types';
+
+// SMAPI reads this over the config.json it ships with, so the bundled file never has to be changed.
+const USER_CONFIG_FILE = path.join('smapi-internal', 'config.user.json');
+
+/**
+ * A SMAPI setting which can be changed from the settings page.
+ *
+ * @interface ISMAPISettingDefinition
+ */
+interface ISMAPISettingDefinition {
+    key: string;
+    name: string;
+    description: string;
+    /**Lists are edited as comma separated mod IDs. */
+    type: 'boolean' | 'list';
+    /**The value SMAPI uses when the setting isn't in config.user.json. */
+    defaultValue: boolean | string[];
+}
+
+const SMAPI_SETTINGS: ISMAPISettingDefinition[] = [
+    {
+        key: 'DeveloperMode', name: 'Developer mode', type: 'boolean', defaultValue: false,
+        description: 'Show more technical details in the console and enable the warnings mod authors need.',
+    },
+    {
+        key: 'CheckForUpdates', name: 'Check for updates', type: 'boolean', defaultValue: true,
+        description: 'Check for newer versions of SMAPI and your mods when the game starts.',
+    },
+    {
+        key: 'UseBetaChannel', name: 'Beta updates', type: 'boolean', defaultValue: false,
+        description: 'Include beta versions of SMAPI when checking for updates.',
+    },
+    {
+        key: 'SuppressUpdateChecks', name: 'Skip update checks for', type: 'list', defaultValue: [],
+        description: 'The UniqueIDs of mods which SMAPI shouldn\'t check for updates.',
+    },
+    {
+        key: 'ParanoidWarnings', name: 'Paranoid warnings', type: 'boolean', defaultValue: false,
+        description: 'Warn about mods which access the file system, the shell or other potentially dangerous features.',
+    },
+    {
+        key: 'VerboseLogging', name: 'Verbose logging', type: 'list', defaultValue: [],
+        description: 'The UniqueIDs of mods which should write more detail to the log. Use "SMAPI" for SMAPI itself.',
+    },
+    {
+        key: 'LogNetworkTraffic', name: 'Log network traffic', type: 'boolean', defaultValue: false,
+        description: 'Write multiplayer network messages to the log. This makes the log very large.',
+    },
+    {
+        key: 'LogTechnicalDetailsForBrokenMods', name: 'Log details for broken mods', type: 'boolean', defaultValue: false,
+        description: 'Include the technical reasons a mod couldn\'t be loaded in the log.',
+    },
+    {
+        key: 'RewriteMods', name: 'Rewrite mods', type: 'boolean', defaultValue: true,
+        description: 'Rewrite older mods so they work with the current game. Only turn this off to test a mod.',
+    },
+    {
+        key: 'UseCaseInsensitivePaths', name: 'Case insensitive paths', type: 'boolean', defaultValue: process.platform !== 'win32',
+        description: 'Find mod files even if their names use different upper and lower case letters.',
+    },
+];
+
+/**
+ * Get the path to SMAPI's user config in the staging folder for the SMAPI mod.
+ *
+ * @param {types.IState} state - The Vortex state.
+ * @param {types.IMod} smapiMod - The installed SMAPI mod.
+ * @returns {string | undefined} The full path, or undefined if the mod hasn't been staged.
+ *
+ */
+function userConfigPath(state: types.IState, smapiMod: types.IMod): string | undefined {
+    const stagingFolder: string = selectors.installPathForGame(state, GAME_ID);
+    if (!stagingFolder || !smapiMod?.installationPath) return undefined;
+    return path.join(stagingFolder, smapiMod.installationPath, USER_CONFIG_FILE);
+}
+
+async function readJson(configPath: string): Promise<object | undefined> {
+    try {
+        const config = rjson.parse(await fs.readFileBOM(configPath, 'utf8'));
+        return !!config && typeof config === 'object' && !Array.isArray(config) ? config : undefined;
+    }
+    catch(err) {
+        if (err.code !== 'ENOENT') log('warn', 'Unable to read SMAPI user config', { configPath, error: err.message });
+        return undefined;
+    }
+}
+
+/**
+ * Write the settings chosen for a profile to config.user.json. Settings left as the SMAPI default are not included,
+ * settings the page doesn't manage are kept and the file is removed if there's nothing left to write.
+ *
+ * @param {string} configPath - The full path to config.user.json.
+ * @param {ISMAPISettings} settings - The settings for the profile.
+ *
+ */
+async function writeUserConfig(configPath: string, settings: ISMAPISettings): Promise<void> {
+    const managed = SMAPI_SETTINGS.map(setting => setting.key.toLowerCase());
+    const existing = await readJson(configPath) || {};
+    const config = Object.keys(existing)
+        .filter(key => !managed.includes(key.toLowerCase()))
+        .reduce((prev, key) => ({ ...prev, [key]: existing[key] }), {});
+    SMAPI_SETTINGS
+        .filter(setting => settings[setting.key] !== undefined)
+        .forEach(setting => config[setting.key] = settings[setting.key]);
+    if (!Object.keys(config).length) {
+        // Every setting is back to the SMAPI default.
+        return fs.removeAsync(configPath).catch(err => (err.code === 'ENOENT' ? undefined : Promise.reject(err)));
+    }
+    await fs.ensureDirAsync(path.dirname(configPath));
+    await fs.writeFileAsync(configPath, JSON.stringify(config, null, 2), { encoding: 'utf8' });
+}
+
+export { ISMAPISettingDefinition, SMAPI_SETTINGS, userConfigPath, writeUserConfig };
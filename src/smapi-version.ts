@@ -0,0 +1,62 @@
+import * as path from 'path';
+import { log, selectors, types } from 'vortex-api';
+import { GAME_ID } from './common';
+import { cachedVersion, readGameSMAPILog, versionFromAssembly } from './game-version';
+
+// SMAPI and its toolkit share a version number, the toolkit is used if the main assembly can't be read.
+const SMAPI_ASSEMBLIES = ['StardewModdingAPI.dll', path.join('smapi-internal', 'StardewModdingAPI.Toolkit.dll')];
+
+/**
+ * Find the SMAPI mod enabled in the active profile for Stardew Valley.
+ *
+ * @param {types.IState} state - The Vortex state.
+ * @returns {types.IMod | undefined} The SMAPI mod, if it was installed with Vortex.
+ *
+ */
+function getSMAPIMod(state: types.IState): types.IMod | undefined {
+    const profile: types.IProfile = selectors.profileById(state, selectors.lastActiveProfileForGame(state, GAME_ID));
+    const mods: { [id: string]: types.IMod } = state.persistent.mods?.[GAME_ID] || {};
+    return Object.values(mods).find(m => m.type === 'SMAPI' && profile?.modState?.[m.id]?.enabled);
+}
+
+/**
+ * Get the installed version of SMAPI. The staged SMAPI mod is checked first, then the files in the game folder
+ * (in case SMAPI was installed manually) and finally the header of the latest SMAPI log.
+ *
+ * @param {types.IExtensionApi} api - The Vortex extension API.
+ * @returns {Promise<string | undefined>} The SMAPI version, or undefined if SMAPI isn't installed or the version could not be detected.
+ *
+ */
+async function getSMAPIVersion(api: types.IExtensionApi): Promise<string | undefined> {
+    const state = api.getState();
+    const discovery: types.IDiscoveryResult = selectors.discoveryByGame(state, GAME_ID);
+    const smapiMod = getSMAPIMod(state);
+
+    const folders: string[] = [];
+    if (smapiMod?.installationPath) folders.push(path.join(selectors.installPathForGame(state, GAME_ID), smapiMod.installationPath));
+    if (discovery?.path) folders.push(discovery.path);
+
+    for (const folder of folders) {
+        for (const assembly of SMAPI_ASSEMBLIES) {
+            const assemblyPath = path.join(folder, assembly);
+            try {
+                const version = await cachedVersion(assemblyPath, () => versionFromAssembly(assemblyPath));
+                // The file version has four parts, SMAPI only uses three.
+                if (version) return version.split('.').slice(0, 3).join('.');
+            }
+            catch(err) {
+                if (err.code !== 'ENOENT') log('debug', 'Unable to read SMAPI version', { assemblyPath, error: err.message });
+            }
+        }
+    }
+
+    if (!discovery?.path) return undefined;
+    try {
+        return (await readGameSMAPILog(discovery.path))?.smapiVersion || undefined;
+    }
+    catch(err) {
+        return undefined;
+    }
+}
+
+export { getSMAPIMod, getSMAPIVersion };
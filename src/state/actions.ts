@@ -0,0 +1,11 @@
+import { createAction } from 'redux-act';
+import { IBisectState, ISMAPISettings } from '../types/state-types';
+
+const setBisectState = createAction('SDV_SET_BISECT_STATE', (bisect: IBisectState | undefined) => bisect);
+const setConfigProfile = createAction('SDV_SET_CONFIG_PROFILE', (profileId: string | undefined) => profileId);
+const setSMAPISettings = createAction('SDV_SET_SMAPI_SETTINGS',
+    (profileId: string, settings: ISMAPISettings | undefined) => ({ profileId, settings }));
+const setDisabledSubMods = createAction('SDV_SET_DISABLED_SUB_MODS',
+    (profileId: string, modId: string, uniqueIds: string[] | undefined) => ({ profileId, modId, uniqueIds }));
+
+export { setBisectState, setConfigProfile, setSMAPISettings, setDisabledSubMods };
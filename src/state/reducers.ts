@@ -0,0 +1,21 @@
+import { types, util } from 'vortex-api';
+import { setBisectState, setConfigProfile, setDisabledSubMods, setSMAPISettings } from './actions';
+
+// Stored under persistent.stardewvalley
+const persistentReducer: types.IReducerSpec = {
+    reducers: {
+        [setBisectState as any]: (state, payload) => payload === undefined
+            ? util.deleteOrNop(state, ['bisect'])
+            : util.setSafe(state, ['bisect'], payload),
+        [setConfigProfile as any]: (state, payload) => util.setSafe(state, ['configProfile'], payload),
+        [setSMAPISettings as any]: (state, payload) => payload.settings === undefined
+            ? util.deleteOrNop(state, ['smapiSettings', payload.profileId])
+            : util.setSafe(state, ['smapiSettings', payload.profileId], payload.settings),
+        [setDisabledSubMods as any]: (state, payload) => payload.uniqueIds === undefined || !payload.uniqueIds.length
+            ? util.deleteOrNop(state, ['disabledSubMods', payload.profileId, payload.modId])
+            : util.setSafe(state, ['disabledSubMods', payload.profileId, payload.modId], payload.uniqueIds),
+    },
+    defaults: {},
+};
+
+export { persistentReducer };
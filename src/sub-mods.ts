@@ -0,0 +1,50 @@
+import { types } from 'vortex-api';
+import { getManifests, getUniqueIds } from './smapi-attributes';
+
+/**
+ * Check if a Vortex mod includes more than one SMAPI mod, so its parts can be turned on and off separately.
+ *
+ * @param {types.IMod} mod - The Vortex mod.
+ * @returns {boolean} True if the mod has several manifests.
+ *
+ */
+function hasSubMods(mod: types.IMod | undefined): boolean {
+    return mod?.type !== 'SMAPI' && getUniqueIds(mod).length > 1;
+}
+
+/**
+ * Get the SMAPI mods turned off inside a Vortex mod.
+ *
+ * @param {types.IState} state - The Vortex state.
+ * @param {string} profileId - The profile to check.
+ * @param {string} modId - The Vortex mod.
+ * @returns {string[]} The UniqueIDs of the disabled SMAPI mods.
+ *
+ */
+function getDisabledSubMods(state: types.IState, profileId: string, modId: string): string[] {
+    return state.persistent['stardewvalley']?.disabledSubMods?.[profileId]?.[modId] || [];
+}
+
+function isSubModEnabled(state: types.IState, profileId: string, modId: string, uniqueId: string): boolean {
+    return !getDisabledSubMods(state, profileId, modId).find(id => id.toLowerCase() === uniqueId.toLowerCase());
+}
+
+/**
+ * Get a copy of a mod with only the manifests of the SMAPI mods which will be deployed, so checks ignore the disabled ones.
+ *
+ * @param {types.IState} state - The Vortex state.
+ * @param {string} profileId - The profile to check.
+ * @param {types.IMod} mod - The Vortex mod.
+ * @returns {types.IMod} The mod, or a copy without the disabled manifests.
+ *
+ */
+function withoutDisabledSubMods(state: types.IState, profileId: string, mod: types.IMod): types.IMod {
+    if (!getDisabledSubMods(state, profileId, mod.id).length) return mod;
+    const manifests = getManifests(mod);
+    const smapiManifests = Object.keys(manifests)
+        .filter(uniqueId => isSubModEnabled(state, profileId, mod.id, uniqueId))
+        .reduce((prev, uniqueId) => ({ ...prev, [uniqueId]: manifests[uniqueId] }), {});
+    return { ...mod, attributes: { ...mod.attributes, smapiManifests } };
+}
+
+export { hasSubMods, getDisabledSubMods, isSubModEnabled, withoutDisabledSubMods };
@@ -0,0 +1,123 @@
+type SMAPILogLevel = 'TRACE' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'ALERT';
+
+const LOG_LEVELS: SMAPILogLevel[] = ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR', 'ALERT'];
+
+/**
+ * A link between a log record and the installed mod it came from.
+ *
+ * @interface ILogModLink
+ */
+interface ILogModLink {
+    /**The SMAPI UniqueID of the mod, if we could resolve it. */
+    uniqueId?: string;
+    /**The Vortex mod which has the UniqueID in its smapiManifests attribute. */
+    vortexModId?: string;
+}
+
+/**
+ * A single message written to the SMAPI log. Multi-line messages (e.g. stack traces) are merged into one record.
+ *
+ * @interface ISMAPILogMessage
+ */
+interface ISMAPILogMessage extends ILogModLink {
+    /**Line number (1-based) of the first line of the message. */
+    line: number;
+    time: string;
+    level: SMAPILogLevel;
+    /**The name of the mod (or "SMAPI"/"game") that wrote the message. */
+    source: string;
+    /**Split-screen ID, if the message was written by a secondary screen. */
+    screen?: number;
+    text: string;
+}
+
+/**
+ * A mod or content pack listed as loaded in the SMAPI log.
+ *
+ * @interface ISMAPILogMod
+ */
+interface ISMAPILogMod extends ILogModLink {
+    name: string;
+    version?: string;
+    author?: string;
+    description?: string;
+    /**The name of the mod this content pack is for. */
+    contentPackFor?: string;
+    isContentPack: boolean;
+}
+
+/**
+ * A mod SMAPI skipped while loading, with the reason given.
+ *
+ * @interface ISMAPILogSkippedMod
+ */
+interface ISMAPILogSkippedMod extends ILogModLink {
+    name: string;
+    version?: string;
+    reason: string;
+}
+
+/**
+ * The parsed contents of a SMAPI log file.
+ *
+ * @interface ISMAPILog
+ */
+interface ISMAPILog {
+    /**True if the text looked like a SMAPI log. */
+    isValid: boolean;
+    smapiVersion?: string;
+    gameVersion?: string;
+    gameBuild?: string;
+    os?: string;
+    modsPath?: string;
+    logStarted?: string;
+    messages: ISMAPILogMessage[];
+    mods: ISMAPILogMod[];
+    skippedMods: ISMAPILogSkippedMod[];
+}
+
+/**
+ * Message counts for a single source in a log.
+ *
+ * @interface ISMAPILogSourceSummary
+ */
+interface ISMAPILogSourceSummary extends ILogModLink {
+    source: string;
+    /**The name of the Vortex mod linked to this source. */
+    vortexModName?: string;
+    warnings: number;
+    errors: number;
+    skipped: number;
+}
+
+/**
+ * A summary of a single play session, collected while watching the log.
+ *
+ * @interface ISMAPISessionSummary
+ */
+interface ISMAPISessionSummary {
+    started: number;
+    ended?: number;
+    /**True if SMAPI wrote a crash log during the session. */
+    crashed: boolean;
+    /**Error and alert counts by the source that wrote them. */
+    errors: { [source: string]: ILogModLink & { count: number } };
+    skippedMods: ISMAPILogSkippedMod[];
+}
+
+/**
+ * A mod which appears to be involved in a crash.
+ *
+ * @interface ICrashSuspect
+ */
+interface ICrashSuspect extends ILogModLink {
+    uniqueId: string;
+    name: string;
+    vortexModName?: string;
+    /**Higher scores are more likely to be responsible. */
+    score: number;
+    /**Why the mod is a suspect, for display to the user. */
+    reasons: string[];
+}
+
+export { SMAPILogLevel, LOG_LEVELS, ILogModLink, ISMAPILog, ISMAPILogMessage, ISMAPILogMod, ISMAPILogSkippedMod, ISMAPILogSourceSummary, ISMAPISessionSummary, ICrashSuspect };
@@ -190,17 +190,107 @@ interface IAPIMod {
             version: string;
             url: string;
         }
+        optional?: {
+            version: string;
+            url: string;
+        }
+        unofficial?: {
+            version: string;
+            url: string;
+        }
         hasBetaInfo?: boolean;
-        compatibilityStatus?: string;
+        compatibilityStatus?: SMAPICompatibilityStatus;
         compatibilitySummary?: string;
+        brokeIn?: string;
     }
 }
 
-type IModRulePlusType = types.IModRule & { type?: 'requires' | 'recommends' } & { reference: IModReferencePlus };
+/**
+ * The compatibility status from the SMAPI mod compatibility list.
+ */
+type SMAPICompatibilityStatus = 'Ok' | 'Optional' | 'Unofficial' | 'Workaround' | 'Broken' | 'Abandoned' | 'Obsolete';
+
+/**
+ * Compatibility data from the SMAPI API, stored on the Vortex mod in the smapiCompatibility attribute by UniqueID.
+ *
+ * @interface ISMAPICompatibility
+ */
+interface ISMAPICompatibility {
+    status: SMAPICompatibilityStatus;
+    summary?: string;
+    brokeIn?: string;
+    unofficialUpdate?: {
+        version: string;
+        url: string;
+    }
+}
+
+/**
+ * An update suggested by the SMAPI API, stored on the Vortex mod in the smapiUpdates attribute by UniqueID.
+ *
+ * @interface ISMAPIUpdateInfo
+ */
+interface ISMAPIUpdateInfo {
+    /**The version installed when the update was found. */
+    installedVersion: string;
+    version: string;
+    url: string;
+}
+
+/**
+ * The SMAPI metadata stored on a Vortex mod. Read these with the accessors in smapi-attributes.ts rather than from the mod directly.
+ *
+ * @interface ISMAPIModAttributes
+ */
+interface ISMAPIModAttributes {
+    /**The version of this schema the attributes were written with, used to migrate mods installed by older versions of the extension. */
+    smapiAttributesVersion?: number;
+    /**The manifests included in the mod, keyed by UniqueID. */
+    smapiManifests?: { [uniqueId: string]: ISMAPIManifest };
+    /**Updates found by the SMAPI API, keyed by UniqueID. */
+    smapiUpdates?: { [uniqueId: string]: ISMAPIUpdateInfo };
+    /**Compatibility data from the SMAPI API, keyed by UniqueID. */
+    smapiCompatibility?: { [uniqueId: string]: ISMAPICompatibility };
+    /**The folders of the mods bundled with SMAPI. Only set on the SMAPI mod. */
+    smapiBundledMods?: string[];
+    /**Problems found in the manifests when the mod was installed. */
+    smapiManifestProblems?: ISMAPIManifestProblem[];
+    /**Files the mod created in the game folder which were added to the mod, relative to its staging folder. These are kept for each profile. */
+    smapiDataFiles?: string[];
+}
+
+/**
+ * A problem found in a manifest.json file when a mod is installed.
+ *
+ * @interface ISMAPIManifestProblem
+ */
+interface ISMAPIManifestProblem {
+    /**The manifest path, relative to the archive. */
+    manifestFile: string;
+    uniqueId?: string;
+    /**Errors stop SMAPI loading the mod, warnings may cause problems later on. */
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+/**
+ * Attributes written by older versions of the extension. These are replaced by smapiManifests when the mod is migrated.
+ *
+ * @interface ILegacySMAPIAttributes
+ */
+interface ILegacySMAPIAttributes {
+    smapiIDs?: { id: string, version?: string }[];
+    modData?: { id: string, version?: string }[];
+}
+
+type IModRulePlusType = types.IModRule & { type?: 'requires' | 'recommends' | 'conflicts' } & { reference: IModReferencePlus };
 
 interface IModReferencePlus extends types.IModReference {
     versionMatch?: string;
     gameId?: string;
+    /**Used by rules for a UniqueID which couldn't be found on the SMAPI API. */
+    fileExpression?: string;
 }
 
-export { SMAPIManifestClass, ISMAPIManifest, IAPIPostRequest, IAPIPostResponse, IAPIMod, IAPIModIdentity, IModRulePlusType };
\ No newline at end of file
+export { SMAPIManifestClass, ISMAPIManifest, IAPIPostRequest, IAPIPostResponse, IAPIMod, IAPIModIdentity, IModRulePlusType, ISMAPIUpdateInfo, ISMAPICompatibility, SMAPICompatibilityStatus,
+    ISMAPIModAttributes, ILegacySMAPIAttributes, ISMAPIManifestProblem };
\ No newline at end of file
@@ -0,0 +1,41 @@
+/**
+ * The progress of a guided search for a broken mod. Stored so the original state can be restored if Vortex is closed part way through.
+ *
+ * @interface IBisectState
+ */
+interface IBisectState {
+    profileId: string;
+    /**The SMAPI mods that were enabled before the search started. */
+    originalEnabled: string[];
+    /**Mods which may still be responsible. */
+    candidates: string[];
+    /**Mods which are known to work, these stay enabled. */
+    innocent: string[];
+    /**Mods ruled out by a failed test, these stay disabled unless another mod requires them. */
+    excluded: string[];
+    /**The mods enabled for the current test. */
+    testing: string[];
+    step: number;
+}
+
+/**
+ * SMAPI settings chosen for a profile, keyed by the setting name in config.user.json. Settings using the SMAPI default aren't stored.
+ */
+type ISMAPISettings = { [key: string]: boolean | string[] };
+
+/**
+ * Persistent state for the Stardew Valley extension.
+ *
+ * @interface ISDVPersistentState
+ */
+interface ISDVPersistentState {
+    bisect?: IBisectState;
+    /**The profile whose mod config files are currently in the staging folder. */
+    configProfile?: string;
+    /**The SMAPI settings for each profile, written to config.user.json when SMAPI is deployed. */
+    smapiSettings?: { [profileId: string]: ISMAPISettings };
+    /**The UniqueIDs of the mods turned off inside archives with several manifests, for each profile and Vortex mod. */
+    disabledSubMods?: { [profileId: string]: { [modId: string]: string[] } };
+}
+
+export { IBisectState, ISDVPersistentState, ISMAPISettings };
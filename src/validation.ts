@@ -0,0 +1,142 @@
+import * as path from 'path';
+import { fs, log, selectors, types } from 'vortex-api';
+import { GAME_ID } from './common';
+import { buildModGraph, readKey } from './dependency-graph';
+import { meetsMinimumVersion, SemanticVersion } from './semantic-version';
+import { getManifests, getUniqueIds } from './smapi-attributes';
+import { withoutDisabledSubMods } from './sub-mods';
+
+// Mods bundled with SMAPI can be depended on, but they're part of the SMAPI mod rather than having their own manifest in Vortex.
+const SMAPI_BUNDLED_PREFIX = 'smapi.';
+
+/**
+ * A UniqueID required by an enabled mod which isn't provided by any of the enabled mods.
+ *
+ * @interface IMissingDependency
+ */
+interface IMissingDependency {
+    mod: types.IMod;
+    uniqueId: string;
+}
+
+/**
+ * A UniqueID provided by more than one enabled mod. SMAPI will refuse to load all of them.
+ *
+ * @interface IDuplicateUniqueId
+ */
+interface IDuplicateUniqueId {
+    uniqueId: string;
+    mods: types.IMod[];
+}
+
+/**
+ * A SMAPI manifest which needs a newer version of SMAPI than the one installed.
+ *
+ * @interface IMinimumApiProblem
+ */
+interface IMinimumApiProblem {
+    mod: types.IMod;
+    id: string;
+    name: string;
+    minimumApiVersion: string;
+}
+
+/**
+ * A SMAPI manifest with an EntryDll that isn't included in the staged mod.
+ *
+ * @interface IMissingEntryDll
+ */
+interface IMissingEntryDll {
+    mod: types.IMod;
+    id: string;
+    entryDll: string;
+}
+
+/**
+ * Get the mods enabled in a profile for Stardew Valley. SMAPI mods turned off inside an archive are left out of the manifests.
+ *
+ * @param {types.IState} state - The Vortex state.
+ * @param {string} [profileId] - The profile to check, defaults to the last active profile.
+ * @returns {{ [id: string]: types.IMod }} The enabled mods, keyed by Vortex mod ID.
+ *
+ */
+function getEnabledMods(state: types.IState, profileId?: string): { [id: string]: types.IMod } {
+    const profile: types.IProfile = selectors.profileById(state, profileId || selectors.lastActiveProfileForGame(state, GAME_ID));
+    const mods: { [id: string]: types.IMod } = state.persistent.mods?.[GAME_ID] || {};
+    return Object.keys(mods)
+        .filter(id => profile?.modState?.[id]?.enabled)
+        .reduce((prev, id) => ({ ...prev, [id]: withoutDisabledSubMods(state, profile.id, mods[id]) }), {});
+}
+
+function findMissingDependencies(mods: { [id: string]: types.IMod }): IMissingDependency[] {
+    const graph = buildModGraph(mods);
+    return Object.values(graph).reduce((prev: IMissingDependency[], node) => prev.concat(
+        node.missing
+            .filter(uniqueId => !uniqueId.toLowerCase().startsWith(SMAPI_BUNDLED_PREFIX))
+            .map(uniqueId => ({ mod: mods[node.modId], uniqueId }))
+    ), []);
+}
+
+function findDuplicateUniqueIds(mods: { [id: string]: types.IMod }): IDuplicateUniqueId[] {
+    const providers: { [uniqueId: string]: IDuplicateUniqueId } = {};
+    for (const mod of Object.values(mods)) {
+        for (const uniqueId of getUniqueIds(mod)) {
+            const key = uniqueId.toLowerCase();
+            if (!providers[key]) providers[key] = { uniqueId, mods: [] };
+            if (!providers[key].mods.includes(mod)) providers[key].mods.push(mod);
+        }
+    }
+    return Object.values(providers).filter(p => p.mods.length > 1);
+}
+
+function findMinimumApiProblems(mods: { [id: string]: types.IMod }, smapiVersion: string): IMinimumApiProblem[] {
+    if (!SemanticVersion.parse(smapiVersion)) return [];
+    const problems: IMinimumApiProblem[] = [];
+    for (const mod of Object.values(mods)) {
+        const manifests = getManifests(mod);
+        for (const [id, manifest] of Object.entries(manifests)) {
+            const minimumApiVersion: string = readKey(manifest, 'MinimumApiVersion');
+            if (minimumApiVersion && !meetsMinimumVersion(smapiVersion, minimumApiVersion)) problems.push({ mod, id, name: readKey(manifest, 'Name') || id, minimumApiVersion });
+        }
+    }
+    return problems;
+}
+
+// List the file names in a folder and its subfolders, lowercased.
+async function listFileNames(folder: string, result: Set<string> = new Set()): Promise<Set<string>> {
+    const entries: string[] = await fs.readdirAsync(folder);
+    for (const entry of entries) {
+        const stats: fs.Stats = await fs.statAsync(path.join(folder, entry));
+        if (stats.isDirectory()) await listFileNames(path.join(folder, entry), result);
+        else result.add(entry.toLowerCase());
+    }
+    return result;
+}
+
+async function findMissingEntryDlls(state: types.IState, mods: { [id: string]: types.IMod }): Promise<IMissingEntryDll[]> {
+    const stagingFolder: string = selectors.installPathForGame(state, GAME_ID);
+    const problems: IMissingEntryDll[] = [];
+    for (const mod of Object.values(mods)) {
+        const manifests = getManifests(mod);
+        const withDll = Object.entries(manifests).filter(([id, manifest]) => !!readKey(manifest, 'EntryDll'));
+        if (!withDll.length || !mod.installationPath) continue;
+        let fileNames: Set<string>;
+        try {
+            fileNames = await listFileNames(path.join(stagingFolder, mod.installationPath));
+        }
+        catch(err) {
+            log('warn', 'Unable to check the files of a staged SMAPI mod', { modId: mod.id, error: err.message });
+            continue;
+        }
+        for (const [id, manifest] of withDll) {
+            const entryDll: string = readKey(manifest, 'EntryDll');
+            if (!fileNames.has(path.basename(entryDll).toLowerCase())) problems.push({ mod, id, entryDll });
+        }
+    }
+    return problems;
+}
+
+export {
+    IMissingDependency, IDuplicateUniqueId, IMinimumApiProblem, IMissingEntryDll,
+    getEnabledMods, findMissingDependencies, findDuplicateUniqueIds, findMinimumApiProblems, findMissingEntryDlls
+};
@@ -0,0 +1,113 @@
+import * as React from 'react';
+import { actions, Icon, MainPage, tooltip, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { computeLoadOrder, ILoadOrder, ILoadOrderEntry, LoadOrderProblemType } from '../load-order';
+import { getEnabledMods } from '../validation';
+
+interface ILoadOrderPageProps {
+    api: types.IExtensionApi;
+}
+
+const PROBLEM_COLOURS: { [type in LoadOrderProblemType]: string } = {
+    cycle: '#d9534f',
+    missing: '#d9534f',
+    orphan: '#e0a000',
+    version: '#e0a000',
+};
+
+function LoadOrderPage(props: ILoadOrderPageProps): JSX.Element {
+    const { api } = props;
+    const [loadOrder, setLoadOrder] = React.useState<ILoadOrder>(undefined);
+    const [problemsOnly, setProblemsOnly] = React.useState<boolean>(false);
+    const [search, setSearch] = React.useState<string>('');
+
+    const refresh = () => setLoadOrder(computeLoadOrder(getEnabledMods(api.getState())));
+    React.useEffect(refresh, []);
+
+    // Show the mod in the mods table, filtered by name so it's easy to find.
+    const openMod = (modId: string) => {
+        const mod: types.IMod | undefined = api.getState().persistent.mods?.[GAME_ID]?.[modId];
+        if (!mod) return;
+        api.events.emit('show-main-page', 'Mods');
+        api.store.dispatch(actions.setAttributeFilter('mods', 'name', util.renderModName(mod)));
+    }
+
+    const entries: ILoadOrderEntry[] = React.useMemo(() => {
+        if (!loadOrder) return [];
+        const searchTerm = search.toLowerCase();
+        return loadOrder.entries.filter(e => (!problemsOnly || e.problems.length)
+            && (!searchTerm || e.name.toLowerCase().includes(searchTerm) || e.uniqueId.toLowerCase().includes(searchTerm)));
+    }, [loadOrder, problemsOnly, search]);
+
+    const nameOf = (uniqueId: string): string => loadOrder?.entries.find(e => e.uniqueId.toLowerCase() === uniqueId.toLowerCase())?.name || uniqueId;
+
+    const renderEntry = (entry: ILoadOrderEntry): JSX.Element => (
+        <tr key={entry.uniqueId}>
+            <td>{loadOrder.entries.indexOf(entry) + 1}</td>
+            <td>
+                <a onClick={() => openMod(entry.modId)} title='Show in the mods list'>{entry.name}</a>
+                <div style={{ opacity: 0.7 }}>{entry.uniqueId}</div>
+            </td>
+            <td>{entry.version}</td>
+            <td>{entry.isContentPack ? 'Content pack' : 'SMAPI mod'}</td>
+            <td>
+                {entry.dependencies.map(d => (
+                    <div key={d.UniqueID}>
+                        {`${nameOf(d.UniqueID)}${d.MinimumVersion ? ` (${d.MinimumVersion}+)` : ''}${d.isRequired ? '' : ' (optional)'}`}
+                    </div>
+                ))}
+            </td>
+            <td>
+                {entry.problems.map(p => (
+                    <div key={`${p.type}-${p.uniqueId}`} style={{ color: PROBLEM_COLOURS[p.type] }}>
+                        <Icon name='feedback-warning' /> {p.message}
+                    </div>
+                ))}
+            </td>
+        </tr>
+    );
+
+    const problemCount = loadOrder?.entries.filter(e => e.problems.length).length || 0;
+
+    return (
+        <MainPage>
+            <MainPage.Header>
+                <tooltip.IconButton icon='refresh' tooltip='Refresh the load order' onClick={refresh}>Refresh</tooltip.IconButton>
+            </MainPage.Header>
+            <MainPage.Body>
+                <div style={{ padding: '8px', overflowY: 'auto', height: '100%' }}>
+                    <p>
+                        This is the order SMAPI will load your enabled mods in, based on their dependencies.
+                        Mods that something depends on are always loaded first.
+                    </p>
+                    {loadOrder
+                        ? <p>{`${loadOrder.entries.length} mods and content packs. ${problemCount} with problems. ${loadOrder.cycles.length} dependency loop(s).`}</p>
+                        : null}
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '8px' }}>
+                        <input className='form-control' style={{ width: 'auto' }} type='text' placeholder='Search...' value={search} onChange={evt => setSearch(evt.currentTarget.value)} />
+                        <label>
+                            <input type='checkbox' checked={problemsOnly} onChange={() => setProblemsOnly(!problemsOnly)} /> Only show mods with problems
+                        </label>
+                    </div>
+                    <table className='table'>
+                        <thead>
+                            <tr>
+                                <th>#</th>
+                                <th>Name</th>
+                                <th>Version</th>
+                                <th>Type</th>
+                                <th>Dependencies</th>
+                                <th>Problems</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.map(renderEntry)}
+                        </tbody>
+                    </table>
+                </div>
+            </MainPage.Body>
+        </MainPage>
+    );
+}
+
+export default LoadOrderPage;
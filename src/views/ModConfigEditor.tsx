@@ -0,0 +1,170 @@
+import * as React from 'react';
+import { actions, log, Modal, Spinner, tooltip, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { applyConfigValues, getConfigFields, getModFolders, IConfigField, IModFolder, readConfig, readConfigSchema, validateField, writeConfig } from '../mod-config';
+
+interface IModConfigEditorProps {
+    api: types.IExtensionApi;
+    mod: types.IMod;
+}
+
+interface ILoadedConfig {
+    config: object | undefined;
+    fields: IConfigField[];
+    isContentPack: boolean;
+}
+
+const fieldKey = (field: IConfigField): string => field.path.join('.');
+
+function ModConfigEditor(props: IModConfigEditorProps): JSX.Element {
+    const { api, mod } = props;
+    const [show, setShow] = React.useState<boolean>(false);
+    const [folders, setFolders] = React.useState<IModFolder[]>(undefined);
+    const [selected, setSelected] = React.useState<string>(undefined);
+    const [loaded, setLoaded] = React.useState<ILoadedConfig>(undefined);
+    const [values, setValues] = React.useState<{ [key: string]: string | boolean }>({});
+    const [saving, setSaving] = React.useState<boolean>(false);
+
+    // Find the mods in the archive each time the editor is opened.
+    React.useEffect(() => {
+        if (!show) return;
+        setFolders(undefined);
+        getModFolders(api.getState(), mod).then(result => {
+            setFolders(result);
+            setSelected(result[0]?.uniqueId);
+        });
+    }, [show, mod.id]);
+
+    const folder = folders?.find(f => f.uniqueId === selected);
+
+    React.useEffect(() => {
+        if (!folder) return;
+        setLoaded(undefined);
+        Promise.all([readConfig(folder.configPath), readConfigSchema(folder.folder)]).then(([config, schema]) => {
+            const fields = getConfigFields(config, schema);
+            setLoaded({ config, fields, isContentPack: !!schema });
+            setValues(fields.reduce((prev, field) => ({ ...prev, [fieldKey(field)]: field.value }), {}));
+        });
+    }, [folder?.configPath]);
+
+    const errors: { [key: string]: string } = React.useMemo(() => (loaded?.fields || []).reduce((prev, field) => {
+        const error = validateField(field, values[fieldKey(field)]);
+        return error ? { ...prev, [fieldKey(field)]: error } : prev;
+    }, {}), [loaded, values]);
+
+    const save = async () => {
+        setSaving(true);
+        try {
+            await writeConfig(folder.configPath, applyConfigValues(loaded.config, loaded.fields, values));
+            // Deployments which copy files need the new config copied to the game folder.
+            api.store.dispatch(actions.setDeploymentNecessary(GAME_ID, true));
+            api.sendNotification({ type: 'success', title: `Saved the config for ${util.renderModName(mod)}`, message: folder.uniqueId, displayMS: 3000 });
+            setShow(false);
+        }
+        catch(err) {
+            log('error', 'Unable to save mod config', { configPath: folder.configPath, error: err.message });
+            api.showErrorNotification('Unable to save the mod config', err, { allowReport: false });
+        }
+        setSaving(false);
+    }
+
+    const setValue = (field: IConfigField, value: string | boolean) => setValues({ ...values, [fieldKey(field)]: value });
+
+    const renderInput = (field: IConfigField): JSX.Element => {
+        const value = values[fieldKey(field)];
+        switch (field.type) {
+            case 'boolean':
+                return <input type='checkbox' checked={value === true} onChange={() => setValue(field, value !== true)} />;
+            case 'select':
+                return (
+                    <select className='form-control' value={String(value)} onChange={evt => setValue(field, evt.currentTarget.value)}>
+                        {field.allowBlank || !value ? <option value=''></option> : null}
+                        {field.allowValues.map(v => <option key={v} value={v}>{v}</option>)}
+                    </select>
+                );
+            case 'multiselect': {
+                const chosen = String(value).split(',').map(v => v.trim().toLowerCase()).filter(v => !!v);
+                const toggle = (option: string) => setValue(field, chosen.includes(option.toLowerCase())
+                    ? field.allowValues.filter(v => v.toLowerCase() !== option.toLowerCase() && chosen.includes(v.toLowerCase())).join(', ')
+                    : field.allowValues.filter(v => v.toLowerCase() === option.toLowerCase() || chosen.includes(v.toLowerCase())).join(', '));
+                return (
+                    <div>
+                        {field.allowValues.map(v => (
+                            <label key={v} style={{ marginRight: '12px' }}>
+                                <input type='checkbox' checked={chosen.includes(v.toLowerCase())} onChange={() => toggle(v)} /> {v}
+                            </label>
+                        ))}
+                    </div>
+                );
+            }
+            case 'json':
+                return <textarea className='form-control' style={{ fontFamily: 'monospace' }} rows={4} value={String(value)} onChange={evt => setValue(field, evt.currentTarget.value)} />;
+            default:
+                return <input className='form-control' type={field.type === 'number' ? 'number' : 'text'} value={String(value)} onChange={evt => setValue(field, evt.currentTarget.value)} />;
+        }
+    }
+
+    const renderField = (field: IConfigField): JSX.Element => (
+        <div key={fieldKey(field)} style={{ marginBottom: '12px' }}>
+            <label style={{ display: 'block' }}>{field.path.join(' › ')}</label>
+            {field.description ? <div style={{ opacity: 0.7 }}>{field.description}</div> : null}
+            {renderInput(field)}
+            {errors[fieldKey(field)] ? <div style={{ color: '#d9534f' }}>{errors[fieldKey(field)]}</div> : null}
+        </div>
+    );
+
+    const renderBody = (): JSX.Element => {
+        if (!folders || (folder && !loaded)) return <Spinner />;
+        if (!folder) return <p>No SMAPI mods were found in this mod's files.</p>;
+        if (!loaded.config && !loaded.isContentPack) {
+            return <p>This mod hasn't created a config.json yet. Enable it and start the game once, then its settings can be changed here.</p>;
+        }
+        if (!loaded.fields.length) return <p>This mod doesn't have any settings.</p>;
+        // Content Patcher packs can group their settings into sections.
+        const sections = Array.from(new Set(loaded.fields.map(f => f.section || '')));
+        return (
+            <div style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+                {loaded.isContentPack && !loaded.config ? <p>The pack hasn't created a config.json yet, so the default values are shown.</p> : null}
+                {sections.map(section => (
+                    <div key={section}>
+                        {section ? <h4>{section}</h4> : null}
+                        {loaded.fields.filter(f => (f.section || '') === section).map(renderField)}
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <tooltip.Button tooltip='Change the settings in config.json' onClick={() => setShow(true)}>Edit config</tooltip.Button>
+            <Modal id='sdv-mod-config-editor' show={show} onHide={() => setShow(false)} bsSize='lg'>
+                <Modal.Header>
+                    <Modal.Title>{`Config: ${util.renderModName(mod)}`}</Modal.Title>
+                </Modal.Header>
+                <Modal.Body>
+                    {folders?.length > 1
+                        ? (
+                            <select className='form-control' style={{ width: 'auto', marginBottom: '8px' }} value={selected || ''} onChange={evt => setSelected(evt.currentTarget.value)}>
+                                {folders.map(f => <option key={f.uniqueId} value={f.uniqueId}>{f.uniqueId}</option>)}
+                            </select>
+                        )
+                        : null}
+                    {renderBody()}
+                </Modal.Body>
+                <Modal.Footer>
+                    <tooltip.Button tooltip='Close without saving' onClick={() => setShow(false)}>Cancel</tooltip.Button>
+                    <tooltip.Button
+                        tooltip='Save the settings to config.json'
+                        disabled={!loaded?.fields.length || Object.keys(errors).length > 0 || saving}
+                        onClick={save}
+                    >
+                        Save
+                    </tooltip.Button>
+                </Modal.Footer>
+            </Modal>
+        </div>
+    );
+}
+
+export default ModConfigEditor;
@@ -0,0 +1,158 @@
+import * as React from 'react';
+import { log, Modal, Spinner, tooltip, types } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { shareSMAPILog } from '../actions/showSMAPILog';
+import onDiagnoseCrash, { diagnoseFailed } from '../actions/diagnoseCrash';
+import { getLogFiles, ISMAPILogFile, readLogFile } from '../smapi-log/files';
+import { describeSummary, linkLogToMods, parseSMAPILog, summariseLog } from '../smapi-log/parser';
+import { ISMAPILog, ISMAPILogMessage, LOG_LEVELS, SMAPILogLevel } from '../types/log-types';
+
+interface ISMAPILogViewerProps {
+    api: types.IExtensionApi;
+    visible: boolean;
+    onHide: () => void;
+}
+
+// Rendering tens of thousands of rows will lock up the UI, so cap the output.
+const MAX_MESSAGES = 2000;
+
+const LEVEL_COLOURS: { [level in SMAPILogLevel]: string } = {
+    TRACE: '#999999',
+    DEBUG: '#999999',
+    INFO: 'inherit',
+    WARN: '#e0a000',
+    ERROR: '#d9534f',
+    ALERT: '#c000c0',
+};
+
+function SMAPILogViewer(props: ISMAPILogViewerProps): JSX.Element {
+    const { api, visible, onHide } = props;
+    const [logFiles, setLogFiles] = React.useState<ISMAPILogFile[]>([]);
+    const [selectedFile, setSelectedFile] = React.useState<string>(undefined);
+    const [logText, setLogText] = React.useState<string>(undefined);
+    const [levels, setLevels] = React.useState<SMAPILogLevel[]>(['INFO', 'WARN', 'ERROR', 'ALERT']);
+    const [source, setSource] = React.useState<string>('');
+    const [search, setSearch] = React.useState<string>('');
+
+    // Refresh the list of log files each time the dialog is opened.
+    React.useEffect(() => {
+        if (!visible) return;
+        getLogFiles().then(files => {
+            setLogFiles(files);
+            setSelectedFile(files[0]?.fileName);
+        });
+    }, [visible]);
+
+    React.useEffect(() => {
+        if (!visible || !selectedFile) return;
+        setLogText(undefined);
+        readLogFile(selectedFile)
+            .then(text => setLogText(text))
+            .catch(err => {
+                log('error', 'Unable to read SMAPI log', { selectedFile, err });
+                setLogText('');
+            });
+    }, [visible, selectedFile]);
+
+    const mods: { [id: string]: types.IMod } = visible ? (api.getState().persistent.mods?.[GAME_ID] || {}) : {};
+
+    const smapiLog: ISMAPILog | undefined = React.useMemo(() => {
+        if (logText === undefined) return undefined;
+        return linkLogToMods(parseSMAPILog(logText), mods);
+    }, [logText]);
+
+    const summaries = React.useMemo(() => smapiLog ? summariseLog(smapiLog, mods) : [], [smapiLog]);
+
+    const sources: string[] = React.useMemo(() => smapiLog
+        ? Array.from(new Set(smapiLog.messages.map(m => m.source))).sort((a, b) => a.localeCompare(b))
+        : [], [smapiLog]);
+
+    const filtered: ISMAPILogMessage[] = React.useMemo(() => {
+        if (!smapiLog) return [];
+        const searchTerm = search.toLowerCase();
+        return smapiLog.messages.filter(m => levels.includes(m.level)
+            && (!source || m.source === source)
+            && (!searchTerm || m.text.toLowerCase().includes(searchTerm) || m.source.toLowerCase().includes(searchTerm)));
+    }, [smapiLog, levels, source, search]);
+
+    const toggleLevel = (level: SMAPILogLevel) => setLevels(levels.includes(level)
+        ? levels.filter(l => l !== level)
+        : [...levels, level]);
+
+    const sourceLabel = (name: string): string => {
+        const summary = summaries.find(s => s.source === name);
+        return summary?.vortexModName && summary.vortexModName !== name ? `${name} (${summary.vortexModName})` : name;
+    }
+
+    const renderBody = (): JSX.Element => {
+        if (!logFiles.length) return <p>No SMAPI logs found.</p>;
+        if (!smapiLog) return <Spinner />;
+        if (!smapiLog.isValid) return <pre className='sdv-smapi-log'>{logText}</pre>;
+        return (
+            <div>
+                <p>
+                    {smapiLog.smapiVersion ? `SMAPI ${smapiLog.smapiVersion} with Stardew Valley ${smapiLog.gameVersion}. ` : ''}
+                    {`${smapiLog.mods.filter(m => !m.isContentPack).length} mods and ${smapiLog.mods.filter(m => m.isContentPack).length} content packs loaded.`}
+                </p>
+                {summaries.length ? <ul>{summaries.map(s => <li key={s.source}>{describeSummary(s)}</li>)}</ul> : null}
+                <div className='sdv-smapi-log' style={{ maxHeight: '50vh', overflowY: 'auto', fontFamily: 'monospace', whiteSpace: 'pre-wrap', userSelect: 'text' }}>
+                    {filtered.slice(0, MAX_MESSAGES).map(m => (
+                        <div key={m.line} style={{ color: LEVEL_COLOURS[m.level] }}>
+                            {`[${m.time} ${m.level.padEnd(5)} ${m.source}] ${m.text}`}
+                        </div>
+                    ))}
+                </div>
+                {filtered.length > MAX_MESSAGES
+                    ? <p>{`Showing the first ${MAX_MESSAGES} of ${filtered.length} messages. Use the filters to narrow down the results.`}</p>
+                    : null}
+            </div>
+        );
+    }
+
+    return (
+        <Modal id='sdv-smapi-log-viewer' show={visible} onHide={onHide} bsSize='lg'>
+            <Modal.Header>
+                <Modal.Title>SMAPI Log</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+                    <select className='form-control' style={{ width: 'auto' }} value={selectedFile || ''} onChange={evt => setSelectedFile(evt.currentTarget.value)}>
+                        {logFiles.map(f => <option key={f.fileName} value={f.fileName}>{`${f.fileName} (${f.modified.toLocaleString()})`}</option>)}
+                    </select>
+                    <select className='form-control' style={{ width: 'auto' }} value={source} onChange={evt => setSource(evt.currentTarget.value)}>
+                        <option value=''>All mods</option>
+                        {sources.map(s => <option key={s} value={s}>{sourceLabel(s)}</option>)}
+                    </select>
+                    <input className='form-control' style={{ width: 'auto' }} type='text' placeholder='Search...' value={search} onChange={evt => setSearch(evt.currentTarget.value)} />
+                </div>
+                <div style={{ marginBottom: '8px' }}>
+                    {LOG_LEVELS.map(level => (
+                        <label key={level} style={{ marginRight: '12px' }}>
+                            <input type='checkbox' checked={levels.includes(level)} onChange={() => toggleLevel(level)} /> {level}
+                        </label>
+                    ))}
+                </div>
+                {renderBody()}
+            </Modal.Body>
+            <Modal.Footer>
+                <p style={{ textAlign: 'left' }}>
+                    To share your log, click "Copy & Share" which will copy it to your clipboard and open the SMAPI log sharing website.
+                    Next, paste your log into the text box and press "save & parse log". You can now share a link to this page with others so they can see your log file.
+                </p>
+                {logFiles.find(f => f.fileName === selectedFile)?.isCrash
+                    ? (
+                        <tooltip.Button tooltip='Find the mods involved in this crash' disabled={!logText} onClick={() => onDiagnoseCrash(api, logText).catch(err => diagnoseFailed(api, err))}>
+                            Diagnose crash
+                        </tooltip.Button>
+                    )
+                    : null}
+                <tooltip.Button tooltip='Anonymise and copy the full log, then open the SMAPI log parser' disabled={!logText} onClick={() => shareSMAPILog(api, logText)}>
+                    Copy & Share log
+                </tooltip.Button>
+                <tooltip.Button tooltip='Close' onClick={onHide}>Close</tooltip.Button>
+            </Modal.Footer>
+        </Modal>
+    );
+}
+
+export default SMAPILogViewer;
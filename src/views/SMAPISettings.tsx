@@ -0,0 +1,117 @@
+import * as React from 'react';
+import { actions, selectors, tooltip, types } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { getSMAPIMod } from '../smapi-version';
+import { ISMAPISettingDefinition, SMAPI_SETTINGS } from '../smapi-settings';
+import { setSMAPISettings } from '../state/actions';
+import { ISMAPISettings } from '../types/state-types';
+
+interface ISMAPISettingsProps {
+    api: types.IExtensionApi;
+}
+
+// Profiles which haven't changed anything use the SMAPI defaults.
+const storedSettings = (state: types.IState, profileId: string | undefined): ISMAPISettings =>
+    state.persistent['stardewvalley']?.smapiSettings?.[profileId] || {};
+
+const listTextFor = (settings: ISMAPISettings): { [key: string]: string } => SMAPI_SETTINGS
+    .filter(s => s.type === 'list' && Array.isArray(settings[s.key]))
+    .reduce((prev, s) => ({ ...prev, [s.key]: (settings[s.key] as string[]).join(', ') }), {});
+
+const describeDefault = (setting: ISMAPISettingDefinition): string => setting.type === 'boolean'
+    ? (setting.defaultValue ? 'on' : 'off')
+    : ((setting.defaultValue as string[]).join(', ') || 'none');
+
+function SMAPISettings(props: ISMAPISettingsProps): JSX.Element {
+    const { api } = props;
+    const profile: types.IProfile | undefined = selectors.activeProfile(api.getState());
+    const [settings, setSettings] = React.useState<ISMAPISettings>(() => storedSettings(api.getState(), profile?.id));
+    // Lists are typed as text, so keep what was entered rather than reformatting it on every key press.
+    const [listText, setListText] = React.useState<{ [key: string]: string }>(() => listTextFor(settings));
+    const [smapiInstalled, setSMAPIInstalled] = React.useState<boolean>(true);
+
+    React.useEffect(() => {
+        if (profile?.gameId !== GAME_ID) return;
+        const state = api.getState();
+        setSMAPIInstalled(!!getSMAPIMod(state));
+        const stored = storedSettings(state, profile.id);
+        setSettings(stored);
+        setListText(listTextFor(stored));
+    }, [profile?.id]);
+
+    if (profile?.gameId !== GAME_ID) return null;
+
+    const save = (updated: ISMAPISettings) => {
+        setSettings(updated);
+        api.store.dispatch(setSMAPISettings(profile.id, updated));
+        // The settings are written to the SMAPI mod during the next deployment.
+        api.store.dispatch(actions.setDeploymentNecessary(GAME_ID, true));
+    }
+
+    const setValue = (key: string, value: boolean | string[] | undefined) => {
+        const updated = { ...settings };
+        if (value === undefined) delete updated[key];
+        else updated[key] = value;
+        save(updated);
+    }
+
+    const setList = (key: string, text: string) => {
+        setListText({ ...listText, [key]: text });
+        const ids = text.split(',').map(id => id.trim()).filter(id => !!id);
+        setValue(key, ids.length ? ids : undefined);
+    }
+
+    const reset = () => {
+        setListText({});
+        save({});
+    }
+
+    const renderInput = (setting: ISMAPISettingDefinition): JSX.Element => {
+        if (setting.type === 'list') {
+            return (
+                <input
+                    className='form-control'
+                    type='text'
+                    placeholder={`SMAPI default (${describeDefault(setting)})`}
+                    value={listText[setting.key] || ''}
+                    onChange={evt => setList(setting.key, evt.currentTarget.value)}
+                />
+            );
+        }
+        const value = settings[setting.key];
+        return (
+            <select
+                className='form-control'
+                style={{ width: 'auto' }}
+                value={value === undefined ? '' : String(value)}
+                onChange={evt => setValue(setting.key, evt.currentTarget.value === '' ? undefined : evt.currentTarget.value === 'true')}
+            >
+                <option value=''>{`SMAPI default (${describeDefault(setting)})`}</option>
+                <option value='true'>On</option>
+                <option value='false'>Off</option>
+            </select>
+        );
+    }
+
+    return (
+        <div>
+            <p>
+                These settings are saved for the profile "{profile.name}" and written to SMAPI's config.user.json when you deploy,
+                so the config.json included with SMAPI is left unchanged.
+            </p>
+            {!smapiInstalled ? <p>SMAPI isn't enabled in this profile, so these settings will be applied once it's installed.</p> : null}
+            {SMAPI_SETTINGS.map(setting => (
+                <div key={setting.key} style={{ marginBottom: '12px' }}>
+                    <label style={{ display: 'block' }}>{setting.name}</label>
+                    <div style={{ opacity: 0.7 }}>{setting.description}</div>
+                    {renderInput(setting)}
+                </div>
+            ))}
+            <tooltip.Button tooltip='Use the SMAPI default for every setting' disabled={!Object.keys(settings).length} onClick={reset}>
+                Reset to defaults
+            </tooltip.Button>
+        </div>
+    );
+}
+
+export default SMAPISettings;
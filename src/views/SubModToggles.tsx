@@ -0,0 +1,49 @@
+import * as React from 'react';
+import { actions, selectors, types } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { readKey } from '../dependency-graph';
+import { getManifests } from '../smapi-attributes';
+import { setDisabledSubMods } from '../state/actions';
+import { getDisabledSubMods } from '../sub-mods';
+
+interface ISubModTogglesProps {
+    api: types.IExtensionApi;
+    mod: types.IMod;
+}
+
+function SubModToggles(props: ISubModTogglesProps): JSX.Element {
+    const { api, mod } = props;
+    const profileId: string | undefined = selectors.lastActiveProfileForGame(api.getState(), GAME_ID);
+    const [disabled, setDisabled] = React.useState<string[]>(() => getDisabledSubMods(api.getState(), profileId, mod.id));
+
+    React.useEffect(() => setDisabled(getDisabledSubMods(api.getState(), profileId, mod.id)), [profileId, mod.id]);
+
+    const manifests = getManifests(mod);
+    const isDisabled = (uniqueId: string) => !!disabled.find(id => id.toLowerCase() === uniqueId.toLowerCase());
+
+    const toggle = (uniqueId: string) => {
+        const updated = isDisabled(uniqueId)
+            ? disabled.filter(id => id.toLowerCase() !== uniqueId.toLowerCase())
+            : [...disabled, uniqueId];
+        setDisabled(updated);
+        api.store.dispatch(setDisabledSubMods(profileId, mod.id, updated));
+        // The folders are moved in or out of the staging folder during the next deployment.
+        api.store.dispatch(actions.setDeploymentNecessary(GAME_ID, true));
+    }
+
+    return (
+        <div>
+            {Object.keys(manifests).map(uniqueId => (
+                <div key={uniqueId}>
+                    <label title={isDisabled(uniqueId) ? 'This mod won\'t be deployed' : 'This mod will be deployed'}>
+                        <input type='checkbox' checked={!isDisabled(uniqueId)} onChange={() => toggle(uniqueId)} />
+                        {` ${readKey(manifests[uniqueId], 'Name') || uniqueId}`}
+                    </label>
+                    <span style={{ opacity: 0.7 }}>{` ${uniqueId}`}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export default SubModToggles;
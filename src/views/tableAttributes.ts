@@ -0,0 +1,150 @@
+import * as React from 'react';
+import { Icon, selectors, types, util } from 'vortex-api';
+import { GAME_ID } from '../common';
+import { getCompatibility, getManifestProblems, getSMAPIAttributes, getUpdates, hasManifests } from '../smapi-attributes';
+import { ISMAPICompatibility, SMAPICompatibilityStatus } from '../types/smapi-types';
+import { hasSubMods } from '../sub-mods';
+import ModConfigEditor from './ModConfigEditor';
+import SubModToggles from './SubModToggles';
+
+// Most severe first, used to pick the status to show for archives with several mods.
+const COMPATIBILITY_ORDER: SMAPICompatibilityStatus[] = ['Broken', 'Obsolete', 'Abandoned', 'Workaround', 'Unofficial', 'Optional', 'Ok'];
+const PROBLEM_STATUSES: SMAPICompatibilityStatus[] = ['Broken', 'Obsolete'];
+
+const COMPATIBILITY_COLOURS: { [status: string]: string } = {
+    Broken: '#d9534f',
+    Obsolete: '#d9534f',
+    Abandoned: '#e0a000',
+    Workaround: '#e0a000',
+    Unofficial: '#e0a000',
+};
+
+// Summaries from the compatibility list can contain HTML, which we don't want in a tooltip.
+const stripHtml = (input: string): string => (input || '').replace(/<[^>]+>/g, '').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+function worstCompatibility(mod: types.IMod): ISMAPICompatibility | undefined {
+    const compat = getCompatibility(mod);
+    return Object.values(compat).sort((a, b) => COMPATIBILITY_ORDER.indexOf(a.status) - COMPATIBILITY_ORDER.indexOf(b.status))[0];
+}
+
+function smapiUpdateAttribute(getGameId: () => string): types.ITableAttribute<types.IMod> {
+    return {
+        id: 'sdv-smapi-update',
+        name: 'SMAPI Update',
+        description: 'Updates found by the SMAPI update check',
+        placement: 'detail',
+        edit: {},
+        isToggleable: false,
+        calc: (mod: types.IMod) => {
+            const updates = getUpdates(mod);
+            return Object.keys(updates).map(id => `${id} ${updates[id].version}`).join(', ');
+        },
+        condition: () => getGameId() === GAME_ID,
+        customRenderer: (mod: types.IMod) => {
+            if (Array.isArray(mod) || !hasManifests(mod)) return null;
+            const updates = getUpdates(mod);
+            if (!Object.keys(updates).length) return React.createElement('span', {}, 'Up to date');
+            return React.createElement('div', {}, Object.keys(updates).map(id => React.createElement('div', { key: id },
+                `${id}: ${updates[id].installedVersion} → `,
+                React.createElement('a', { onClick: () => util.opn(updates[id].url).catch(() => undefined), title: updates[id].url }, updates[id].version)
+            )));
+        },
+    };
+}
+
+function smapiCompatibilityAttribute(getGameId: () => string): types.ITableAttribute<types.IMod> {
+    return {
+        id: 'sdv-smapi-compatibility',
+        name: 'Compatibility',
+        description: 'Compatibility with the current game and SMAPI version, from the SMAPI mod compatibility list',
+        icon: 'feedback-warning',
+        placement: 'both',
+        edit: {},
+        isToggleable: true,
+        isDefaultVisible: true,
+        isSortable: true,
+        calc: (mod: types.IMod) => worstCompatibility(mod)?.status,
+        sortFunc: (lhs: string, rhs: string) => COMPATIBILITY_ORDER.indexOf(lhs as SMAPICompatibilityStatus) - COMPATIBILITY_ORDER.indexOf(rhs as SMAPICompatibilityStatus),
+        condition: () => getGameId() === GAME_ID,
+        customRenderer: (mod: types.IMod, detailCell: boolean) => {
+            if (Array.isArray(mod)) return null;
+            const compat = getSMAPIAttributes(mod).smapiCompatibility;
+            if (!compat) return null;
+            const renderStatus = (id: string, info: ISMAPICompatibility) => React.createElement('div', { key: id, title: stripHtml(info.summary) },
+                PROBLEM_STATUSES.includes(info.status) ? React.createElement(Icon, { name: 'feedback-warning' }) : null,
+                React.createElement('span', { style: { color: COMPATIBILITY_COLOURS[info.status], fontWeight: PROBLEM_STATUSES.includes(info.status) ? 'bold' : undefined } },
+                    detailCell && Object.keys(compat).length > 1 ? `${id}: ${info.status}` : info.status),
+                detailCell && info.summary ? React.createElement('p', {}, stripHtml(info.summary)) : null,
+                detailCell && info.unofficialUpdate
+                    ? React.createElement('a', { onClick: () => util.opn(info.unofficialUpdate.url).catch(() => undefined), title: info.unofficialUpdate.url },
+                        `Get unofficial update ${info.unofficialUpdate.version}`)
+                    : null
+            );
+            if (detailCell) return React.createElement('div', {}, Object.keys(compat).map(id => renderStatus(id, compat[id])));
+            // The table only has room for the most severe status.
+            const worst = worstCompatibility(mod);
+            const worstId = Object.keys(compat).find(id => compat[id] === worst);
+            return worst ? renderStatus(worstId, worst) : null;
+        },
+    };
+}
+
+function manifestProblemsAttribute(getGameId: () => string): types.ITableAttribute<types.IMod> {
+    return {
+        id: 'sdv-manifest-problems',
+        name: 'Manifest Problems',
+        description: 'Problems found in the manifest.json files when the mod was installed',
+        placement: 'detail',
+        edit: {},
+        isToggleable: false,
+        calc: (mod: types.IMod) => getManifestProblems(mod).map(p => p.message).join(', '),
+        condition: () => getGameId() === GAME_ID,
+        customRenderer: (mod: types.IMod) => {
+            if (Array.isArray(mod)) return null;
+            const problems = getManifestProblems(mod);
+            if (!problems.length) return null;
+            return React.createElement('div', {}, problems.map((p, idx) => React.createElement('div', { key: idx, title: p.manifestFile },
+                p.severity === 'error' ? React.createElement(Icon, { name: 'feedback-warning' }) : null,
+                React.createElement('span', { style: { color: p.severity === 'error' ? COMPATIBILITY_COLOURS.Broken : COMPATIBILITY_COLOURS.Workaround } },
+                    `${p.uniqueId ? `${p.uniqueId}: ` : ''}${p.message}`)
+            )));
+        },
+    };
+}
+
+function modConfigAttribute(api: types.IExtensionApi): types.ITableAttribute<types.IMod> {
+    return {
+        id: 'sdv-mod-config',
+        name: 'Config',
+        description: 'Change the settings of a SMAPI mod',
+        placement: 'detail',
+        edit: {},
+        isToggleable: false,
+        calc: () => undefined,
+        condition: () => selectors.activeGameId(api.getState()) === GAME_ID,
+        customRenderer: (mod: types.IMod) => {
+            // SMAPI's own settings are edited separately.
+            if (Array.isArray(mod) || mod?.type === 'SMAPI' || !hasManifests(mod)) return null;
+            return React.createElement(ModConfigEditor, { api, mod });
+        },
+    };
+}
+
+function subModsAttribute(api: types.IExtensionApi): types.ITableAttribute<types.IMod> {
+    return {
+        id: 'sdv-sub-mods',
+        name: 'Included Mods',
+        description: 'Turn off individual SMAPI mods included in the same archive',
+        placement: 'detail',
+        edit: {},
+        isToggleable: false,
+        calc: () => undefined,
+        condition: () => selectors.activeGameId(api.getState()) === GAME_ID,
+        customRenderer: (mod: types.IMod) => {
+            if (Array.isArray(mod) || !hasSubMods(mod)) return null;
+            return React.createElement(SubModToggles, { api, mod });
+        },
+    };
+}
+
+export { smapiUpdateAttribute, smapiCompatibilityAttribute, manifestProblemsAttribute, modConfigAttribute, subModsAttribute };